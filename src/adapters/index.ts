@@ -0,0 +1,54 @@
+import path from 'path';
+import { getDefaultExport, requireFile } from '../loader';
+import { MigrationShellConfig } from '../types';
+import { SqlAdapter } from './sql';
+import { TypeOrmAdapter } from './typeorm';
+import { MigrationAdapterFactory } from './types';
+
+export { AdapterContext, MigrationAdapter, MigrationAdapterFactory } from './types';
+export { TypeOrmAdapter, parseAppliedMigrations } from './typeorm';
+export { SqlAdapter, getSqlMigrationId } from './sql';
+
+export const DEFAULT_ADAPTER = 'typeorm';
+
+export const builtinAdapters: Record<string, MigrationAdapterFactory> = {
+  typeorm: context => new TypeOrmAdapter(context),
+  sql: context => new SqlAdapter(context)
+};
+
+async function loadAdapterModule(specifier: string): Promise<MigrationAdapterFactory> {
+  const exported = path.isAbsolute(specifier) || specifier.startsWith('.')
+    ? await requireFile(path.resolve(specifier))
+    : require(require.resolve(specifier, { paths: [process.cwd()] }));
+
+  const factory = getDefaultExport(exported) ?? (exported as { createAdapter?: unknown }).createAdapter;
+
+  if (typeof factory !== 'function') {
+    throw new Error(`Adapter module "${specifier}" must export a factory function (default or "createAdapter")`);
+  }
+
+  return factory as MigrationAdapterFactory;
+}
+
+export async function resolveAdapterFactory(
+  name: string,
+  config: MigrationShellConfig
+): Promise<MigrationAdapterFactory> {
+  const registered = config.adapters?.[name];
+
+  if (typeof registered === 'function') {
+    return registered;
+  }
+
+  if (typeof registered === 'string') {
+    return loadAdapterModule(registered);
+  }
+
+  const builtin = builtinAdapters[name];
+  if (!builtin) {
+    const available = [...Object.keys(builtinAdapters), ...Object.keys(config.adapters ?? {})];
+    throw new Error(`Unknown migration adapter "${name}". Available: ${available.join(', ')}`);
+  }
+
+  return builtin;
+}
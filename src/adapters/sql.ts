@@ -0,0 +1,236 @@
+import path from 'path';
+import { AppliedMigrationRecord } from '../datasource';
+import { shellQuote } from '../git';
+import { MigrationLock } from '../lock';
+import { CommandResult, LockHolder, Migration, SqlAdapterConfig } from '../types';
+import { AdapterContext, MigrationAdapter } from './types';
+
+function sqlString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+export function getSqlMigrationId(fileName: string): string {
+  return fileName.replace(/(\.up)?\.sql$/, '');
+}
+
+// A single-row table next to the migrations table: the primary key makes the insert fail while
+// someone else holds the lock, and the row records who that is.
+class SqlRowLock implements MigrationLock {
+  readonly kind = 'lock table';
+
+  constructor(
+    private readonly table: string,
+    private readonly query: (sql: string) => Promise<string>
+  ) {}
+
+  async acquire(holder: LockHolder): Promise<LockHolder | null> {
+    try {
+      await this.query(
+        `${this.createTableStatement()} INSERT INTO ${this.table} (id, holder) VALUES (1, ${sqlString(JSON.stringify(holder))});`
+      );
+      return null;
+    } catch (error: unknown) {
+      const current = await this.read();
+      if (current) return current;
+      throw error;
+    }
+  }
+
+  async release(holder: LockHolder): Promise<void> {
+    await this.query(`DELETE FROM ${this.table} WHERE id = 1 AND holder = ${sqlString(JSON.stringify(holder))};`);
+  }
+
+  async read(): Promise<LockHolder | null> {
+    const output = (await this.query(`${this.createTableStatement()} SELECT holder FROM ${this.table} WHERE id = 1;`)).trim();
+    if (!output) return null;
+
+    try {
+      return JSON.parse(output) as LockHolder;
+    } catch {
+      throw new Error(`Unexpected lock holder in ${this.table}: ${output}`);
+    }
+  }
+
+  async forceRelease(): Promise<void> {
+    await this.query(`DELETE FROM ${this.table} WHERE id = 1;`);
+  }
+
+  private createTableStatement(): string {
+    return `CREATE TABLE IF NOT EXISTS ${this.table} (id INTEGER PRIMARY KEY, holder TEXT NOT NULL);`;
+  }
+}
+
+export class SqlAdapter implements MigrationAdapter {
+  readonly name = 'sql';
+
+  private readonly options: SqlAdapterConfig;
+  private readonly table: string;
+
+  constructor(private readonly context: AdapterContext) {
+    if (!context.config.sql) {
+      throw new Error('The "sql" adapter requires a "sql" section with "execute" and "query" commands');
+    }
+
+    this.options = context.config.sql;
+    this.table = this.options.table || 'schema_migrations';
+
+    if (!/^[A-Za-z_][\w.]*$/.test(this.table)) {
+      throw new Error(`Invalid migrations table name: ${this.table}`);
+    }
+  }
+
+  isMigrationFile(fileName: string): boolean {
+    return fileName.endsWith('.sql') && !fileName.endsWith('.down.sql');
+  }
+
+  getDownFile(fileName: string): string {
+    return `${getSqlMigrationId(fileName)}.down.sql`;
+  }
+
+  async getAppliedMigrations(): Promise<AppliedMigrationRecord[]> {
+    const output = await this.query(
+      `${this.createTableStatement()} SELECT name FROM ${this.table} ORDER BY name;`
+    );
+
+    return output
+      .split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(name => ({ name, timestamp: Number(name.match(/^(\d+)/)?.[1] ?? NaN) }));
+  }
+
+  isApplied(migration: Migration, applied: AppliedMigrationRecord[]): boolean {
+    const id = getSqlMigrationId(migration.name);
+    return applied.some(record => record.name === id);
+  }
+
+  async checkConnection(): Promise<boolean> {
+    try {
+      await this.query('SELECT 1;', 5000);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async up(): Promise<CommandResult> {
+    const applied = new Set((await this.getAppliedMigrations()).map(record => record.name));
+    const files = (await this.context.fs.readdir(this.context.migrationsDir))
+      .filter(file => this.isMigrationFile(file) && !applied.has(getSqlMigrationId(file)))
+      .sort();
+
+    if (files.length === 0) {
+      this.context.log('No pending migrations', 'info');
+      return { success: true, code: 0, stdout: 'No pending migrations', stderr: '' };
+    }
+
+    const appliedNow: string[] = [];
+
+    for (const file of files) {
+      const result = await this.applyFile(file);
+
+      if (!result.success) {
+        return { ...result, stdout: `Applied: ${appliedNow.join(', ')}\n${result.stdout}` };
+      }
+
+      appliedNow.push(getSqlMigrationId(file));
+    }
+
+    return { success: true, code: 0, stdout: `Applied: ${appliedNow.join(', ')}`, stderr: '' };
+  }
+
+  async down(): Promise<CommandResult> {
+    const applied = await this.getAppliedMigrations();
+    const last = applied[applied.length - 1];
+
+    if (!last) {
+      this.context.log('No applied migrations', 'info');
+      return { success: true, code: 0, stdout: 'No applied migrations', stderr: '' };
+    }
+
+    return this.revertId(last.name);
+  }
+
+  async applyOne(migration: Migration): Promise<CommandResult> {
+    return this.applyFile(migration.name);
+  }
+
+  async revertOne(migration: Migration): Promise<CommandResult> {
+    return this.revertId(getSqlMigrationId(migration.name));
+  }
+
+  async preview(migration: Migration, direction: 'up' | 'down'): Promise<string[]> {
+    const file = direction === 'up' ? migration.name : this.getDownFile(migration.name);
+    const content = await this.context.fs.readFile(path.join(this.context.migrationsDir, file), 'utf-8');
+    return content.trim() ? [content.trim()] : [];
+  }
+
+  private async applyFile(file: string): Promise<CommandResult> {
+    const id = getSqlMigrationId(file);
+    const result = await this.context.runCommand(this.formatExecute(file), `Applying ${id}`);
+
+    if (result.success) {
+      await this.query(`INSERT INTO ${this.table} (name) VALUES (${sqlString(id)});`);
+    }
+
+    return result;
+  }
+
+  private async revertId(id: string): Promise<CommandResult> {
+    const downFile = this.getDownFile(id);
+
+    try {
+      await this.context.fs.access(path.join(this.context.migrationsDir, downFile));
+    } catch {
+      const message = `No down migration found for ${id} (expected ${downFile})`;
+      this.context.log(message, 'error');
+      return { success: false, code: 1, stdout: '', stderr: message };
+    }
+
+    const result = await this.context.runCommand(this.formatExecute(downFile), `Reverting ${id}`);
+
+    if (result.success) {
+      await this.query(`DELETE FROM ${this.table} WHERE name = ${sqlString(id)};`);
+    }
+
+    return result;
+  }
+
+  async create(name: string): Promise<CommandResult> {
+    const id = `${Date.now()}_${name.replace(/[^\w-]+/g, '_')}`;
+    const header = `-- Migration: ${name}\n-- Created: ${new Date().toISOString()}\n\n`;
+    const upFile = path.join(this.context.migrationsDir, `${id}.up.sql`);
+    const downFile = path.join(this.context.migrationsDir, `${id}.down.sql`);
+
+    this.context.log(`Creating migration: ${name}...`, 'info');
+
+    try {
+      await this.context.fs.mkdir(this.context.migrationsDir, { recursive: true });
+      await this.context.fs.writeFile(upFile, header, { flag: 'wx' });
+      await this.context.fs.writeFile(downFile, header, { flag: 'wx' });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.context.log(`Creating migration: ${name} failed: ${errorMessage}`, 'error');
+      return { success: false, code: 1, stdout: '', stderr: errorMessage };
+    }
+
+    this.context.log(`Creating migration: ${name} completed successfully`, 'success');
+    return { success: true, code: 0, stdout: `${upFile}\n${downFile}`, stderr: '' };
+  }
+
+  async getLock(): Promise<MigrationLock> {
+    return new SqlRowLock(`${this.table}_lock`, sql => this.query(sql));
+  }
+
+  private createTableStatement(): string {
+    return `CREATE TABLE IF NOT EXISTS ${this.table} (name VARCHAR(255) PRIMARY KEY, applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP);`;
+  }
+
+  private formatExecute(file: string): string {
+    return this.options.execute.replace(/\{file\}/g, shellQuote(path.join(this.context.migrationsDir, file)));
+  }
+
+  private query(sql: string, timeout?: number): Promise<string> {
+    return this.context.readCommand(this.options.query.replace(/\{sql\}/g, shellQuote(sql)), timeout);
+  }
+}
@@ -0,0 +1,181 @@
+import path from 'path';
+import { AppliedMigrationRecord, DataSourceBackend } from '../datasource';
+import { MigrationLock } from '../lock';
+import { CommandResult, Migration } from '../types';
+import { AdapterContext, MigrationAdapter } from './types';
+
+export function parseAppliedMigrations(output: string): string[] {
+  const lines = output.split('\n');
+  const appliedMigrations: string[] = [];
+
+  for (const line of lines) {
+    if (line.includes('✓') || line.includes('[X]')) {
+      const match = line.match(/(?:\[X\]|✓)\s*\d+\s*(\S+)/);
+      if (match) {
+        const cleanName = match[1].replace(/\u001b\[[0-9;]*m/g, '');
+        appliedMigrations.push(cleanName);
+      }
+    }
+  }
+
+  return appliedMigrations;
+}
+
+export class TypeOrmAdapter implements MigrationAdapter {
+  readonly name = 'typeorm';
+
+  private backend: DataSourceBackend | null;
+  private statusSource: 'dataSource' | 'command' = 'command';
+
+  constructor(private readonly context: AdapterContext) {
+    this.backend = context.dataSource ? new DataSourceBackend(context.dataSource, context.env) : null;
+  }
+
+  isMigrationFile(fileName: string): boolean {
+    return (fileName.endsWith('.ts') || fileName.endsWith('.js')) && !fileName.endsWith('.d.ts');
+  }
+
+  async getAppliedMigrations(): Promise<AppliedMigrationRecord[]> {
+    if (this.backend) {
+      try {
+        const records = await this.backend.getAppliedMigrations();
+        this.statusSource = 'dataSource';
+        return records;
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        this.context.log(`DataSource backend unavailable, falling back to status command: ${errorMessage}`, 'warning');
+      }
+    }
+
+    const output = await this.context.readCommand(this.context.commands.showStatus);
+    this.statusSource = 'command';
+
+    return parseAppliedMigrations(output).map(name => ({
+      name,
+      timestamp: Number(name.match(/(\d+)/)?.[1] ?? NaN)
+    }));
+  }
+
+  isApplied(migration: Migration, applied: AppliedMigrationRecord[]): boolean {
+    const migrationTimestamp = migration.name.replace(/\.(ts|js)$/, '').match(/^(\d+)/)?.[1];
+
+    return applied.some(record => {
+      if (this.statusSource === 'dataSource' && migration.className) {
+        return record.name === migration.className;
+      }
+
+      return !!migrationTimestamp && String(record.timestamp) === migrationTimestamp;
+    });
+  }
+
+  async checkConnection(): Promise<boolean> {
+    if (this.backend) {
+      try {
+        await this.backend.ping();
+        return true;
+      } catch {
+        // Fall through to the status command, mirroring getAppliedMigrations.
+      }
+    }
+
+    try {
+      await this.context.readCommand(this.context.commands.showStatus, 5000);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getConnectionInfo(): { host: string; database: string } | null {
+    return this.backend?.getConnectionInfo() ?? null;
+  }
+
+  async up(): Promise<CommandResult> {
+    if (!(await this.connectBackend())) {
+      return this.context.runCommand(this.context.commands.migrateUp, 'Applying migrations');
+    }
+
+    return this.runBackendOperation('Applying migrations', async backend => {
+      const names = await backend.runMigrations();
+      return names.length > 0 ? `Applied: ${names.join(', ')}` : 'No pending migrations';
+    });
+  }
+
+  async down(): Promise<CommandResult> {
+    if (!(await this.connectBackend())) {
+      return this.context.runCommand(this.context.commands.migrateDown, 'Reverting migration');
+    }
+
+    return this.runBackendOperation('Reverting migration', async backend => {
+      const name = await backend.undoLastMigration();
+      return name ? `Reverted: ${name}` : 'No applied migrations';
+    });
+  }
+
+  async create(name: string): Promise<CommandResult> {
+    return this.context.runCommand(this.formatNamedCommand(this.context.commands.create, name), `Creating migration: ${name}`);
+  }
+
+  async generate(name: string): Promise<CommandResult> {
+    return this.context.runCommand(this.formatNamedCommand(this.context.commands.generate, name), `Generating migration: ${name}`);
+  }
+
+  async preview(migration: Migration, direction: 'up' | 'down'): Promise<string[]> {
+    if (!this.backend) {
+      throw new Error('SQL preview requires a "dataSource" to be configured');
+    }
+
+    return this.backend.recordMigration(path.join(this.context.migrationsDir, migration.name), direction);
+  }
+
+  async getLock(): Promise<MigrationLock | null> {
+    if (!(await this.connectBackend())) return null;
+    return this.backend!.createAdvisoryLock();
+  }
+
+  async dispose(): Promise<void> {
+    await this.backend?.disconnect();
+  }
+
+  private async connectBackend(): Promise<boolean> {
+    if (!this.backend) return false;
+
+    try {
+      await this.backend.connect();
+      return true;
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.context.log(`DataSource backend unavailable, falling back to shell command: ${errorMessage}`, 'warning');
+      return false;
+    }
+  }
+
+  private formatNamedCommand(template: string, name: string): string {
+    const relativeDir = path.relative(process.cwd(), this.context.migrationsDir) || '.';
+    const migrationPath = path.posix.join(relativeDir.split(path.sep).join('/'), name);
+
+    if (!template.includes('{name}') && !template.includes('{path}')) {
+      return `${template} ${migrationPath}`;
+    }
+
+    return template.replace(/\{name\}/g, name).replace(/\{path\}/g, migrationPath);
+  }
+
+  private async runBackendOperation(
+    description: string,
+    operation: (backend: DataSourceBackend) => Promise<string>
+  ): Promise<CommandResult> {
+    this.context.log(`${description} (DataSource)...`, 'info');
+
+    try {
+      const output = await operation(this.backend!);
+      this.context.log(`${description} completed successfully`, 'success');
+      this.context.log(output, 'info');
+      return { success: true, code: 0, stdout: output, stderr: '' };
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.context.log(`${description} failed: ${errorMessage}`, 'error');
+      return { success: false, code: 1, stdout: '', stderr: errorMessage };
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { AppliedMigrationRecord } from '../datasource';
+import { MigrationLock } from '../lock';
+import { FileSystem } from '../runtime';
+import {
+  CommandResult,
+  Logger,
+  Migration,
+  MigrationCommands,
+  MigrationProfile,
+  MigrationShellConfig
+} from '../types';
+
+export interface AdapterContext {
+  migrationsDir: string;
+  commands: MigrationCommands;
+  config: MigrationShellConfig;
+  profile: MigrationProfile | null;
+  env: Record<string, string>;
+  fs: FileSystem;
+  dataSource?: string;
+  log: Logger;
+  runCommand(command: string, description: string): Promise<CommandResult>;
+  readCommand(command: string, timeout?: number): Promise<string>;
+}
+
+export interface MigrationAdapter {
+  readonly name: string;
+  isMigrationFile(fileName: string): boolean;
+  getDownFile?(fileName: string): string;
+  getAppliedMigrations(): Promise<AppliedMigrationRecord[]>;
+  isApplied(migration: Migration, applied: AppliedMigrationRecord[]): boolean;
+  checkConnection(): Promise<boolean>;
+  up(): Promise<CommandResult>;
+  down(): Promise<CommandResult>;
+  applyOne?(migration: Migration): Promise<CommandResult>;
+  revertOne?(migration: Migration): Promise<CommandResult>;
+  create(name: string): Promise<CommandResult>;
+  generate?(name: string): Promise<CommandResult>;
+  preview?(migration: Migration, direction: 'up' | 'down'): Promise<string[]>;
+  getConnectionInfo?(): { host: string; database: string } | null;
+  getLock?(): Promise<MigrationLock | null>;
+  dispose?(): Promise<void>;
+}
+
+export type MigrationAdapterFactory = (context: AdapterContext) => MigrationAdapter;
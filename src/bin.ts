@@ -0,0 +1,66 @@
+#!/usr/bin/env node
+
+import { ConfigError, loadConfig } from './config';
+import { EXIT_FAILURE, EXIT_USAGE, formatUsage, parseArgs, runHeadless, UsageError } from './headless';
+import { MigrationShellConfig } from './types';
+
+async function main(argv: string[]): Promise<number | null> {
+  const options = parseArgs(argv);
+
+  if (options.command === 'help') {
+    return runHeadless(options);
+  }
+
+  const loaded = await loadConfig({ configPath: options.configPath });
+  const config: MigrationShellConfig = {
+    ...loaded?.config,
+    migrationsDir: options.migrationsDir || loaded?.config.migrationsDir,
+    defaultProfile: options.profile || loaded?.config.defaultProfile
+  };
+
+  if (config.defaultProfile && !config.profiles?.[config.defaultProfile]) {
+    const available = Object.keys(config.profiles ?? {});
+    throw new UsageError(
+      `Unknown profile "${config.defaultProfile}"${available.length ? `. Available: ${available.join(', ')}` : ''}`,
+      false
+    );
+  }
+
+  if (options.command) {
+    return runHeadless(options, config);
+  }
+
+  if (!process.stdout.isTTY || !process.stdin.isTTY) {
+    console.error('No TTY detected. Use a command such as "status" or "up" in non-interactive environments.\n');
+    console.error(formatUsage());
+    return EXIT_USAGE;
+  }
+
+  const { ModernMigrationShell } = await import('./cli');
+  const shell = new ModernMigrationShell(config);
+  await shell.start();
+
+  return null;
+}
+
+main(process.argv.slice(2))
+  .then(code => {
+    if (code !== null) {
+      process.exitCode = code;
+    }
+  })
+  .catch((error: unknown) => {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(errorMessage);
+
+    if (error instanceof UsageError) {
+      if (error.showUsage) {
+        console.error(`\n${formatUsage()}`);
+      }
+      process.exitCode = EXIT_USAGE;
+    } else if (error instanceof ConfigError) {
+      process.exitCode = EXIT_USAGE;
+    } else {
+      process.exitCode = EXIT_FAILURE;
+    }
+  });
@@ -0,0 +1,53 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import { FileSystem, nodeFileSystem } from './runtime';
+
+export const DEFAULT_CHECKSUM_FILE = '.migration-checksums.json';
+
+export interface ChecksumRecord {
+  hash: string;
+  recordedAt: string;
+}
+
+type ChecksumData = Record<string, Record<string, ChecksumRecord>>;
+
+export function computeChecksum(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+export class ChecksumStore {
+  constructor(readonly filePath: string, private readonly fs: FileSystem = nodeFileSystem) {}
+
+  async read(scope: string): Promise<Record<string, ChecksumRecord>> {
+    return (await this.load())[scope] ?? {};
+  }
+
+  async update(scope: string, changes: { set?: Record<string, string>; remove?: string[] }): Promise<void> {
+    const data = await this.load();
+    const records = data[scope] ?? {};
+    const recordedAt = new Date().toISOString();
+
+    for (const [name, hash] of Object.entries(changes.set ?? {})) {
+      records[name] = { hash, recordedAt };
+    }
+    for (const name of changes.remove ?? []) {
+      delete records[name];
+    }
+
+    data[scope] = records;
+
+    const tempPath = `${this.filePath}.tmp`;
+    await this.fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await this.fs.writeFile(tempPath, `${JSON.stringify(data, null, 2)}\n`, 'utf-8');
+    await this.fs.rename(tempPath, this.filePath);
+  }
+
+  private async load(): Promise<ChecksumData> {
+    try {
+      return JSON.parse(await this.fs.readFile(this.filePath, 'utf-8')) as ChecksumData;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw new Error(`Could not read checksums from ${this.filePath}: ${(error as Error).message}`);
+    }
+  }
+}
@@ -1,114 +1,57 @@
 #!/usr/bin/env node
 
 import blessed from 'blessed';
-import { execSync, spawn } from 'child_process';
 import figlet from 'figlet';
-import { promises as fs } from 'fs';
+import { FSWatcher, promises as fs, watch } from 'fs';
 import path from 'path';
 import { promisify } from 'util';
+import { isMigrationPending, MigrationCore, MigrationRuntime, RunOptions } from './core';
+import { GitFileInfo } from './git';
+import { escapeTags, highlightSource } from './highlight';
+import { DOWN_METHOD, getLintErrors, UP_METHOD } from './lint';
+import { formatSqlPreview } from './preview';
+import { TableDiff } from './schema-diff';
+import {
+  CommandResult,
+  DatabaseInfo,
+  HistoryEntry,
+  LockHolder,
+  Migration,
+  MigrationPlan,
+  MigrationPlanStep,
+  MigrationShellConfig,
+  RunningCommand
+} from './types';
 
 const figletAsync = promisify(figlet);
 
-interface Migration {
-  id?: number;
-  name: string;
-  timestamp: number;
-  status: 'pending' | 'applied' | 'failed';
-  description?: string;
-  size?: string;
-  hash?: string;
-}
-
-interface DatabaseInfo {
-  host: string;
-  database: string;
-  connected: boolean;
-  migrationsCount: number;
-  pendingCount: number;
-  lastCheck: number;
-}
-
-interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-  ttl: number;
-}
-
-interface MigrationShellConfig {
-  migrationsDir?: string;
-  autoRefreshInterval?: number;
-  commands?: {
-    showStatus?: string;
-    migrateUp?: string;
-    migrateDown?: string;
-  };
-  database?: {
-    host?: string;
-    name?: string;
-  };
-}
-
-class PerformanceCache {
-  private cache = new Map<string, CacheEntry<any>>();
-  private readonly DEFAULT_TTL = 30000;
-
-  set<T>(key: string, data: T, ttl: number = this.DEFAULT_TTL): void {
-    this.cache.set(key, {
-      data,
-      timestamp: Date.now(),
-      ttl
-    });
-  }
-
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
-    
-    if (Date.now() - entry.timestamp > entry.ttl) {
-      this.cache.delete(key);
-      return null;
-    }
-    
-    return entry.data;
-  }
-
-  clear(): void {
-    this.cache.clear();
-  }
-
-  invalidate(pattern: string): void {
-    for (const key of this.cache.keys()) {
-      if (key.includes(pattern)) {
-        this.cache.delete(key);
-      }
-    }
-  }
-}
+const SPINNER_FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
 
 export class ModernMigrationShell {
   private screen: blessed.Widgets.Screen;
-  private config: MigrationShellConfig;
-  private migrationsDir: string;
+  private core: MigrationCore;
   private autoRefreshInterval: NodeJS.Timeout | null = null;
-  private commands: {
-    showStatus: string;
-    migrateUp: string;
-    migrateDown: string;
-  };
+  private autoRefreshMs: number;
+  private watcher: FSWatcher | null = null;
+  private changedFiles = new Set<string>();
+  private fileChangeTimer: NodeJS.Timeout | null = null;
+  private statusCheckTimer: NodeJS.Timeout | null = null;
+  private readonly watchEnabled: boolean;
+  private statusChecks = 0;
+  private spinnerFrame = 0;
+  private spinnerTimer: NodeJS.Timeout | null = null;
+  private taskTimer: NodeJS.Timeout | null = null;
+  private taskLines: string[] = [];
+  private lockHolder: LockHolder | null = null;
+  private gitDetails: { name: string; info: GitFileInfo | null } | null = null;
   private migrations: Migration[] = [];
   private selectedIndex = 0;
   private currentView: 'main' | 'details' | 'logs' = 'main';
-  private dbInfo: DatabaseInfo = {
-    host: 'localhost',
-    database: 'eternal_app',
-    connected: false,
-    migrationsCount: 0,
-    pendingCount: 0,
-    lastCheck: 0
-  };
+  private dbInfo: DatabaseInfo;
 
   private migrationsList!: blessed.Widgets.ListElement;
   private detailsBox!: blessed.Widgets.BoxElement;
+  private taskBox!: blessed.Widgets.BoxElement;
   private menuBar!: blessed.Widgets.BoxElement;
   private logBox!: blessed.Widgets.BoxElement;
   private progressBox!: blessed.Widgets.BoxElement;
@@ -116,21 +59,21 @@ export class ModernMigrationShell {
   private searchBox!: blessed.Widgets.TextboxElement;
   private filterBox!: blessed.Widgets.BoxElement;
 
-  private cache = new PerformanceCache();
   private isLoading = false;
   private searchTerm = '';
-  private filterStatus: 'all' | 'pending' | 'applied' | 'failed' = 'all';
+  private filterStatus: 'all' | Migration['status'] = 'all';
   private logBuffer: string[] = [];
   private readonly MAX_LOG_ENTRIES = 1000;
 
-  constructor(config: MigrationShellConfig = {}) {
-    this.config = config;
-    this.migrationsDir = config.migrationsDir || path.join(process.cwd(), 'migrations');
-    this.commands = {
-      showStatus: config.commands?.showStatus || 'pnpm run migration:show',
-      migrateUp: config.commands?.migrateUp || 'pnpm run migrate:up',
-      migrateDown: config.commands?.migrateDown || 'pnpm run migrate:down'
-    };
+  constructor(config: MigrationShellConfig = {}, runtime: MigrationRuntime = {}) {
+    this.core = new MigrationCore(config, undefined, runtime);
+    this.core.setLogger((message, type) => this.log(message, type));
+    this.core.on('commandStarted', command => this.showTask(command));
+    this.core.on('commandOutput', (line, stream) => this.appendTaskOutput(line, stream));
+    this.core.on('commandFinished', (command, result) => this.finishTask(command, result));
+    this.dbInfo = this.core.dbInfo;
+    this.autoRefreshMs = config.autoRefreshInterval || 30000;
+    this.watchEnabled = config.watch !== false;
 
     this.screen = blessed.screen({
       smartCSR: true,
@@ -264,6 +207,25 @@ export class ModernMigrationShell {
       mouse: true
     });
 
+    this.taskBox = blessed.box({
+      parent: this.screen,
+      top: 8,
+      left: '70%',
+      width: '30%',
+      height: '65%',
+      label: '⚙️ Running',
+      border: { type: 'line' },
+      hidden: true,
+      style: {
+        fg: 'white',
+        border: { fg: 'cyan' }
+      },
+      tags: true,
+      scrollable: true,
+      alwaysScroll: true,
+      mouse: true
+    });
+
     this.logBox = blessed.box({
       parent: this.screen,
       bottom: 1,
@@ -300,8 +262,16 @@ export class ModernMigrationShell {
     this.updateFilterDisplay();
   }
 
+  // Full-screen views (viewer, history) bind single-letter keys of their own, so the global
+  // shortcuts only fire from the main view.
+  private onMainKey(keys: string[], handler: () => void): void {
+    this.screen.key(keys, () => {
+      if (this.currentView === 'main') handler();
+    });
+  }
+
   private setupEventHandlers(): void {
-    this.screen.key(['C-q', 'q'], () => {
+    this.onMainKey(['C-q', 'q'], () => {
       this.showExitConfirmation();
     });
 
@@ -309,6 +279,22 @@ export class ModernMigrationShell {
       this.refreshData();
     });
 
+    this.onMainKey(['s'], () => {
+      this.showMigrationStatus();
+    });
+
+    this.onMainKey(['c'], () => {
+      this.connectToDatabase(true);
+    });
+
+    this.onMainKey(['x'], () => {
+      if (this.core.runningCommand) {
+        this.confirmCancelCommand();
+      } else if (!this.core.cancelStatusCheck()) {
+        this.log('Nothing to cancel', 'info');
+      }
+    });
+
     this.screen.key(['f1', 'h'], () => {
       this.showHelp();
     });
@@ -338,28 +324,48 @@ export class ModernMigrationShell {
       this.showMigrationActions();
     });
 
+    this.migrationsList.key(['t'], () => {
+      const migration = this.getFilteredMigrations()[this.selectedIndex];
+      if (migration) {
+        this.migrateToMigration(migration);
+      }
+    });
+
     this.migrationsList.key(['v'], () => {
-      if (this.migrations[this.selectedIndex]) {
-        this.viewMigrationContent(this.migrations[this.selectedIndex]);
+      const migration = this.getFilteredMigrations()[this.selectedIndex];
+      if (migration) {
+        this.viewMigrationContent(migration);
       }
     });
 
-    this.screen.key(['n'], () => {
+    this.onMainKey(['n'], () => {
       this.createMigration();
     });
 
-    this.screen.key(['g'], () => {
+    this.onMainKey(['g'], () => {
       this.generateMigration();
     });
 
-    this.screen.key(['u'], () => {
+    this.onMainKey(['u'], () => {
       this.applyMigrations();
     });
 
-    this.screen.key(['d'], () => {
+    this.onMainKey(['d'], () => {
       this.revertMigration();
     });
 
+    this.onMainKey(['p'], () => {
+      this.showProfileSwitcher();
+    });
+
+    this.onMainKey(['f6', 'l'], () => {
+      this.showHistory();
+    });
+
+    this.onMainKey(['f7'], () => {
+      this.showLockStatus();
+    });
+
     this.searchBox.on('submit', (value) => {
       this.searchTerm = value;
       this.applyFilters();
@@ -395,17 +401,101 @@ export class ModernMigrationShell {
       clearInterval(this.autoRefreshInterval);
     }
     
+    // With the watcher running, file changes are already picked up, so polling only re-checks status.
     this.autoRefreshInterval = setInterval(() => {
-      if (!this.isLoading && Date.now() - this.dbInfo.lastCheck > 30000) {
-        this.refreshData(true);
+      if (!this.isLoading && Date.now() - this.dbInfo.lastCheck > this.autoRefreshMs) {
+        if (this.watcher) {
+          this.refreshStatus();
+        } else {
+          this.refreshData(true);
+        }
       }
-    }, 30000);
+    }, this.autoRefreshMs);
+  }
+
+  private setupWatcher(): void {
+    if (!this.watchEnabled) return;
+
+    try {
+      this.watcher = watch(this.core.migrationsDir, (_event, file) => {
+        if (!file) return;
+        this.changedFiles.add(file.toString());
+        this.scheduleFileUpdate();
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log(`Cannot watch ${this.core.migrationsDir}: ${errorMessage}`, 'warning');
+      return;
+    }
+
+    this.watcher.on('error', (error: Error) => {
+      this.log(`Stopped watching migrations: ${error.message}`, 'warning');
+      this.stopWatcher();
+    });
+  }
+
+  private stopWatcher(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.fileChangeTimer) clearTimeout(this.fileChangeTimer);
+    if (this.statusCheckTimer) clearTimeout(this.statusCheckTimer);
+  }
+
+  private scheduleFileUpdate(): void {
+    if (this.fileChangeTimer) clearTimeout(this.fileChangeTimer);
+    this.fileChangeTimer = setTimeout(() => this.applyFileChanges(), 200);
+  }
+
+  private async applyFileChanges(): Promise<void> {
+    if (this.isLoading) {
+      this.scheduleFileUpdate();
+      return;
+    }
+
+    const files = [...this.changedFiles];
+    this.changedFiles.clear();
+    this.isLoading = true;
+
+    try {
+      this.migrations = await this.core.updateMigrationFiles(files);
+      this.log(`Migrations changed on disk: ${files.join(', ')}`, 'info');
+      this.updateMigrationsList();
+      this.updateProgress();
+      this.screen.render();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log(`Error updating migrations: ${errorMessage}`, 'error');
+    } finally {
+      this.isLoading = false;
+    }
+
+    if (this.statusCheckTimer) clearTimeout(this.statusCheckTimer);
+    this.statusCheckTimer = setTimeout(() => this.refreshStatus(), 2000);
+  }
+
+  private async refreshStatus(): Promise<void> {
+    if (this.isLoading) return;
+
+    this.isLoading = true;
+
+    try {
+      this.migrations = await this.withStatusSpinner(() => this.core.refreshStatus());
+      this.updateMigrationsList();
+      this.updateDatabaseStatus();
+      this.updateProgress();
+      this.screen.render();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log(`Error checking migration status: ${errorMessage}`, 'error');
+    } finally {
+      this.isLoading = false;
+    }
   }
 
   private updateMenuBar(): void {
     const menuItems = [
       'F1:Help', 'F2:Auto-refresh', 'F3:Search', 'F4:Filter',
-      'N:New', 'G:Generate', 'U:Up', 'D:Down', 'Q:Quit'
+      'N:New', 'G:Generate', 'U:Up', 'D:Down', 'P:Profile', 'L:History', 'F7:Lock', 'Q:Quit'
     ];
     
     this.menuBar.setContent(`{center}${menuItems.join(' | ')}{/center}`);
@@ -416,18 +506,125 @@ export class ModernMigrationShell {
     const lastCheck = this.dbInfo.lastCheck ? 
       new Date(this.dbInfo.lastCheck).toLocaleTimeString() : 'Never';
     
+    const status = this.statusChecks > 0
+      ? `${SPINNER_FRAMES[this.spinnerFrame % SPINNER_FRAMES.length]} Checking... (X to cancel)`
+      : `${statusIcon} Status: ${this.dbInfo.connected ? 'Connected' : 'Disconnected'}`;
+
     const content = [
-      `${statusIcon} Status: ${this.dbInfo.connected ? 'Connected' : 'Disconnected'}`,
+      status,
       `🏠 Host: ${this.dbInfo.host}`,
       `💾 Database: ${this.dbInfo.database}`,
-      `📊 Total: ${this.dbInfo.migrationsCount}`,
-      `⏳ Pending: ${this.dbInfo.pendingCount}`,
-      `🕐 Last Check: ${lastCheck}`
+      `📊 Total: ${this.dbInfo.migrationsCount} | ⏳ Pending: ${this.dbInfo.pendingCount}`,
+      `🕐 Last Check: ${lastCheck}`,
+      this.lockHolder
+        ? `🔒 Locked: ${this.lockHolder.user}@${this.lockHolder.host} since ${new Date(this.lockHolder.acquiredAt).toLocaleTimeString()}`
+        : '🔓 Unlocked'
     ].join('\n');
     
+    const profile = this.core.activeProfile;
+    const isProtected = this.core.isProtected();
+    const borderColor = isProtected ? 'red' : 'green';
+
+    this.dbStatusBox.setLabel(profile
+      ? `📊 {bold}{${borderColor}-fg}${profile.toUpperCase()}{/${borderColor}-fg}{/bold}${isProtected ? ' 🔒' : ''}`
+      : '📊 Database Status');
+    (this.dbStatusBox.style.border as { fg: string }).fg = borderColor;
     this.dbStatusBox.setContent(content);
   }
 
+  private showTask(command: RunningCommand): void {
+    if (this.taskTimer) clearInterval(this.taskTimer);
+
+    this.taskLines = [`{gray-fg}$ ${escapeTags(command.command)}{/gray-fg}`];
+    this.taskBox.setContent(this.taskLines.join('\n'));
+    this.taskBox.show();
+    this.updateTaskLabel(command);
+    this.refreshLock();
+    this.taskTimer = setInterval(() => {
+      const running = this.core.runningCommand;
+      if (running) this.updateTaskLabel(running);
+    }, 1000);
+    this.screen.render();
+  }
+
+  private updateTaskLabel(command: RunningCommand, state?: string): void {
+    const elapsed = this.formatElapsed(Date.now() - command.startedAt);
+    const status = state ?? (command.cancelRequestedAt ? 'cancelling' : 'X to cancel');
+    this.taskBox.setLabel(`⚙️ ${escapeTags(command.description)} ${elapsed} (${status})`);
+    this.screen.render();
+  }
+
+  private appendTaskOutput(line: string, stream: 'stdout' | 'stderr'): void {
+    const text = escapeTags(line);
+    this.taskLines.push(stream === 'stderr' ? `{red-fg}${text}{/red-fg}` : text);
+    if (this.taskLines.length > 500) this.taskLines.shift();
+
+    this.taskBox.setContent(this.taskLines.join('\n'));
+    this.taskBox.setScrollPerc(100);
+    this.screen.render();
+  }
+
+  private finishTask(command: RunningCommand, result: CommandResult): void {
+    if (this.taskTimer) {
+      clearInterval(this.taskTimer);
+      this.taskTimer = null;
+    }
+
+    const state = result.cancelled ? 'cancelled' : result.success ? 'done' : `failed, code ${result.code}`;
+    this.updateTaskLabel(command, state);
+
+    setTimeout(() => {
+      if (!this.core.runningCommand) {
+        this.taskBox.hide();
+        this.screen.render();
+      }
+    }, 3000);
+  }
+
+  private formatElapsed(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(seconds / 60);
+    return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+  }
+
+  private async confirmCancelCommand(): Promise<void> {
+    const running = this.core.runningCommand;
+    if (!running) return;
+
+    const confirmed = await this.showConfirmation(
+      'Cancel Command',
+      `Cancel "${running.description}" (SIGINT, then SIGTERM)?`
+    );
+
+    if (confirmed && this.core.runningCommand?.startedAt === running.startedAt) {
+      this.core.cancelRunningCommand();
+      this.updateTaskLabel(running, 'cancelling');
+    }
+  }
+
+  private async withStatusSpinner<T>(run: () => Promise<T>): Promise<T> {
+    this.statusChecks++;
+    if (!this.spinnerTimer) {
+      this.spinnerTimer = setInterval(() => {
+        this.spinnerFrame++;
+        this.updateDatabaseStatus();
+        this.screen.render();
+      }, 100);
+    }
+
+    try {
+      return await run();
+    } finally {
+      this.statusChecks--;
+      if (this.statusChecks === 0 && this.spinnerTimer) {
+        clearInterval(this.spinnerTimer);
+        this.spinnerTimer = null;
+      }
+      this.updateDatabaseStatus();
+      this.screen.render();
+    }
+  }
+
   private updateProgress(): void {
     const total = this.dbInfo.migrationsCount;
     const applied = total - this.dbInfo.pendingCount;
@@ -456,96 +653,15 @@ export class ModernMigrationShell {
 
   private async loadMigrations(): Promise<void> {
     if (this.isLoading) return;
-    
-    const cacheKey = 'migrations';
-    const cached = this.cache.get<Migration[]>(cacheKey);
-    
-    if (cached) {
-      this.migrations = cached;
-      this.updateMigrationsList();
-      this.updateProgress();
-      return;
-    }
 
     this.isLoading = true;
-    this.log('Loading migrations...', 'info');
-    
-    try {
-      try {
-        await fs.access(this.migrationsDir);
-      } catch {
-        await fs.mkdir(this.migrationsDir, { recursive: true });
-      }
-
-      const files = await fs.readdir(this.migrationsDir);
-      const migrationFiles = files.filter(file => file.endsWith('.ts') || file.endsWith('.js'));
-
-      const migrations: Migration[] = [];
-      
-      for (const file of migrationFiles) {
-        const filePath = path.join(this.migrationsDir, file);
-        const stats = await fs.stat(filePath);
-        const content = await fs.readFile(filePath, 'utf-8');
-        
-        const timestampMatch = file.match(/^(\d+)/);
-        const timestamp = timestampMatch ? parseInt(timestampMatch[1]) : stats.birthtimeMs;
-        
-        const migration: Migration = {
-          name: file,
-          timestamp,
-          status: 'pending',
-          description: this.extractDescription(content),
-          size: this.formatFileSize(stats.size),
-          hash: this.generateHash(content)
-        };
-
-        migrations.push(migration);
-      }
-
-      migrations.sort((a, b) => a.timestamp - b.timestamp);
-
-      try {
-        const statusOutput = execSync(this.commands.showStatus, { 
-          encoding: 'utf-8',
-          timeout: 10000,
-          stdio: ['pipe', 'pipe', 'pipe']
-        });
-        
-        const appliedMigrations = this.parseAppliedMigrations(statusOutput);
-        
-        migrations.forEach(migration => {
-          const baseName = migration.name.replace(/\.(ts|js)$/, '');
-          const migrationTimestamp = baseName.match(/^(\d+)/)?.[1];
-          
-          const isApplied = appliedMigrations.some(appliedName => {
-            const appliedTimestamp = appliedName.match(/(\d+)/)?.[1];
-            return migrationTimestamp && appliedTimestamp && migrationTimestamp === appliedTimestamp;
-          });
-          
-          if (isApplied) {
-            migration.status = 'applied';
-          }
-        });
-        
-        this.dbInfo.connected = true;
-      } catch (error: unknown) {
-        this.dbInfo.connected = false;
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        this.log(`Could not fetch migration status: ${errorMessage}`, 'warning');
-      }
 
-      this.migrations = migrations;
-      this.dbInfo.migrationsCount = migrations.length;
-      this.dbInfo.pendingCount = migrations.filter(m => m.status === 'pending').length;
-      this.dbInfo.lastCheck = Date.now();
+    try {
+      this.migrations = await this.withStatusSpinner(() => this.core.loadMigrations());
 
-      this.cache.set(cacheKey, migrations, 60000);
-      
       this.updateMigrationsList();
       this.updateDatabaseStatus();
       this.updateProgress();
-      
-      this.log(`Loaded ${migrations.length} migrations`, 'success');
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.log(`Error loading migrations: ${errorMessage}`, 'error');
@@ -554,54 +670,6 @@ export class ModernMigrationShell {
     }
   }
 
-  private parseAppliedMigrations(output: string): string[] {
-    const lines = output.split('\n');
-    const appliedMigrations: string[] = [];
-    
-    for (const line of lines) {
-      if (line.includes('✓') || line.includes('[X]')) {
-        const match = line.match(/(?:\[X\]|✓)\s*\d+\s*(\S+)/);
-        if (match) {
-          const cleanName = match[1].replace(/\u001b\[[0-9;]*m/g, '');
-          appliedMigrations.push(cleanName);
-        }
-      }
-    }
-    
-    return appliedMigrations;
-  }
-
-  private extractDescription(content: string): string {
-    const commentMatch = content.match(/\/\*\*(.*?)\*\//s);
-    if (commentMatch) {
-      return commentMatch[1].replace(/\*/g, '').trim().split('\n')[0].trim();
-    }
-    
-    const classMatch = content.match(/export\s+class\s+(\w+)/);
-    if (classMatch) {
-      return classMatch[1].replace(/\d+/, '').replace(/([A-Z])/g, ' $1').trim();
-    }
-    
-    return 'Migration';
-  }
-
-  private formatFileSize(bytes: number): string {
-    const sizes = ['B', 'KB', 'MB'];
-    if (bytes === 0) return '0 B';
-    const i = Math.floor(Math.log(bytes) / Math.log(1024));
-    return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
-  }
-
-  private generateHash(content: string): string {
-    let hash = 0;
-    for (let i = 0; i < content.length; i++) {
-      const char = content.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash).toString(16);
-  }
-
   private getFilteredMigrations(): Migration[] {
     let filtered = this.migrations;
     
@@ -620,6 +688,26 @@ export class ModernMigrationShell {
     return filtered;
   }
 
+  private formatLintBadges(migration: Migration): string {
+    const count = (severity: string) => (migration.lint ?? []).filter(finding => finding.severity === severity).length;
+    const badges = [
+      count('error') > 0 ? `{red-fg}✖${count('error')}{/red-fg}` : '',
+      count('warning') > 0 ? `{yellow-fg}▲${count('warning')}{/yellow-fg}` : '',
+      count('info') > 0 ? `{cyan-fg}●${count('info')}{/cyan-fg}` : ''
+    ].filter(Boolean);
+
+    return badges.length > 0 ? ` ${badges.join(' ')}` : '';
+  }
+
+  private formatLintFindings(migration: Migration): string[] {
+    const colors = { error: 'red', warning: 'yellow', info: 'cyan' };
+
+    return (migration.lint ?? []).map(finding => {
+      const location = finding.line ? ` (line ${finding.line})` : '';
+      return `{${colors[finding.severity]}-fg}[${finding.severity.toUpperCase()}] ${finding.rule}: ${blessed.escape(finding.message)}${location}{/${colors[finding.severity]}-fg}`;
+    });
+  }
+
   private updateMigrationsList(): void {
     const filtered = this.getFilteredMigrations();
     
@@ -627,13 +715,15 @@ export class ModernMigrationShell {
       const statusIcon = {
         'applied': '✅',
         'pending': '⏳',
-        'failed': '❌'
+        'failed': '❌',
+        'modified': '✏️',
+        'orphaned': '👻'
       }[migration.status];
       
       const date = new Date(migration.timestamp).toLocaleDateString();
       const description = migration.description || 'No description';
       
-      return `${statusIcon} ${migration.name} | ${date} | ${migration.size} | ${description}`;
+      return `${statusIcon} ${migration.name}${this.formatLintBadges(migration)} | ${date} | ${migration.size ?? 'no file'} | ${description}`;
     });
 
     this.migrationsList.setItems(items);
@@ -660,11 +750,18 @@ export class ModernMigrationShell {
       `📄 Name: ${migration.name}`,
       `📅 Date: ${new Date(migration.timestamp).toLocaleString()}`,
       `📊 Status: ${migration.status.toUpperCase()}`,
-      `📏 Size: ${migration.size}`,
-      `🔗 Hash: ${migration.hash}`,
+      `📏 Size: ${migration.size ?? 'no file'}`,
+      `🔗 Hash: ${migration.hash?.slice(0, 16) ?? '-'}`,
+      ...this.formatGitInfo(migration),
+      ...(migration.status === 'modified'
+        ? [`{yellow-fg}✏️  Modified since applied (was ${migration.appliedHash?.slice(0, 16)}){/yellow-fg}`]
+        : []),
+      ...(migration.warnings ?? []).map(warning => `{yellow-fg}⚠️  ${blessed.escape(warning)}{/yellow-fg}`),
+      ...(migration.lint?.length ? ['', '🔍 Lint:', ...this.formatLintFindings(migration)] : []),
       '',
       `📝 Description:`,
       migration.description || 'No description available',
+      ...this.formatFailure(migration, 5).map(line => `{red-fg}${blessed.escape(line)}{/red-fg}`),
       '',
       `⚡ Actions:`,
       '• Press ENTER for actions',
@@ -673,6 +770,44 @@ export class ModernMigrationShell {
     ].join('\n');
 
     this.detailsBox.setContent(details);
+
+    if (migration.status !== 'orphaned') {
+      this.loadGitInfo(migration);
+    }
+  }
+
+  private formatGitInfo(migration: Migration): string[] {
+    if (migration.status === 'orphaned') return [];
+    if (this.gitDetails?.name !== migration.name) return ['🌿 Git: {gray-fg}…{/gray-fg}'];
+
+    const info = this.gitDetails.info;
+    if (!info) return [];
+
+    const colors = { committed: 'green', modified: 'yellow', added: 'cyan', untracked: 'yellow', ignored: 'gray' };
+    const commit = info.introducedBy;
+
+    return [
+      `🌿 Git: {${colors[info.status]}-fg}${info.status}{/${colors[info.status]}-fg}`,
+      ...(commit
+        ? [
+          `   Added in ${commit.hash.slice(0, 8)} by ${blessed.escape(commit.author)} on ${new Date(commit.date).toLocaleString()}`,
+          `   ${blessed.escape(commit.subject)}`
+        ]
+        : [])
+    ];
+  }
+
+  private loadGitInfo(migration: Migration): void {
+    this.core.getGitInfo(migration).then(info => {
+      const selected = this.getFilteredMigrations()[this.selectedIndex];
+      const unchanged = this.gitDetails?.name === migration.name
+        && JSON.stringify(this.gitDetails.info) === JSON.stringify(info);
+      if (selected?.name !== migration.name || unchanged) return;
+
+      this.gitDetails = { name: migration.name, info };
+      this.updateDetails();
+      this.screen.render();
+    });
   }
 
   private log(message: string, type: 'info' | 'success' | 'warning' | 'error' = 'info'): void {
@@ -715,7 +850,7 @@ export class ModernMigrationShell {
   }
 
   private cycleFilter(): void {
-    const filters: Array<typeof this.filterStatus> = ['all', 'pending', 'applied', 'failed'];
+    const filters: Array<typeof this.filterStatus> = ['all', 'pending', 'applied', 'failed', 'modified', 'orphaned'];
     const currentIndex = filters.indexOf(this.filterStatus);
     this.filterStatus = filters[(currentIndex + 1) % filters.length];
     
@@ -740,7 +875,7 @@ export class ModernMigrationShell {
       this.log('Auto-refresh disabled', 'info');
     } else {
       this.setupAutoRefresh();
-      this.log('Auto-refresh enabled (30s)', 'info');
+      this.log(`Auto-refresh enabled (${Math.round(this.autoRefreshMs / 1000)}s)`, 'info');
     }
   }
 
@@ -754,6 +889,7 @@ export class ModernMigrationShell {
       'View Content',
       'Apply This Migration',
       'Revert This Migration',
+      'Migrate To Here',
       'Show Details',
       'Cancel'
     ];
@@ -794,6 +930,9 @@ export class ModernMigrationShell {
           await this.revertSpecificMigration(migration);
           break;
         case 3:
+          await this.migrateToMigration(migration);
+          break;
+        case 4:
           this.showMigrationDetails(migration);
           break;
       }
@@ -808,11 +947,33 @@ export class ModernMigrationShell {
     this.screen.render();
   }
 
-  private async viewMigrationContent(migration: Migration): Promise<void> {
+  private async viewMigrationContent(migration: Migration, initialLine = 0): Promise<void> {
+    if (migration.status === 'orphaned') {
+      this.log(`${migration.name} has no migration file`, 'warning');
+      return;
+    }
+
     try {
-      const filePath = path.join(this.migrationsDir, migration.name);
-      const content = await fs.readFile(filePath, 'utf-8');
-      
+      const { content, downPath, downContent } = await this.core.readMigrationSource(migration);
+      const language = migration.name.endsWith('.sql') ? 'sql' : 'typescript';
+
+      const lines = content.split('\n');
+      const highlighted = highlightSource(content, language);
+      let upLine = lines.findIndex(line => UP_METHOD.test(line));
+      let downLine = lines.findIndex(line => DOWN_METHOD.test(line));
+
+      if (downPath) {
+        const separator = `── ${path.basename(downPath)}${downContent === null ? ' (missing)' : ''} ──`;
+        upLine = 0;
+        downLine = lines.length;
+        lines.push(separator, ...(downContent?.split('\n') ?? []));
+        highlighted.push(`{gray-fg}${escapeTags(separator)}{/gray-fg}`, ...(downContent !== null ? highlightSource(downContent, language) : []));
+      }
+
+      const gutter = String(lines.length).length;
+      let searchTerm = '';
+      let matchIndex = -1;
+
       const contentBox = blessed.box({
         parent: this.screen,
         top: 1,
@@ -821,23 +982,132 @@ export class ModernMigrationShell {
         bottom: 1,
         border: { type: 'line' },
         label: ` Content: ${migration.name} `,
-        content: content,
+        tags: true,
         scrollable: true,
         alwaysScroll: true,
         keys: true,
         vi: true,
         mouse: true,
+        scrollbar: {
+          ch: ' ',
+          style: { bg: 'green' }
+        },
         style: {
           border: { fg: 'green' }
         }
       });
 
-      contentBox.key(['q', 'escape'], () => {
+      const matchingLines = () => searchTerm
+        ? lines.map((line, index) => line.toLowerCase().includes(searchTerm.toLowerCase()) ? index : -1).filter(index => index >= 0)
+        : [];
+
+      const render = () => {
+        const term = searchTerm.toLowerCase();
+        const rows = lines.map((line, index) => {
+          const number = `{gray-fg}${String(index + 1).padStart(gutter)} │{/gray-fg} `;
+          if (!term || !line.toLowerCase().includes(term)) {
+            return number + highlighted[index];
+          }
+
+          let marked = '';
+          let position = 0;
+          let found: number;
+          while ((found = line.toLowerCase().indexOf(term, position)) !== -1) {
+            marked += escapeTags(line.slice(position, found))
+              + `{black-fg}{yellow-bg}${escapeTags(line.slice(found, found + term.length))}{/yellow-bg}{/black-fg}`;
+            position = found + term.length;
+          }
+          marked += escapeTags(line.slice(position));
+
+          return (index === matchIndex ? '{yellow-fg}▶{/yellow-fg}' : ' ') + number.slice(1) + marked;
+        });
+
+        const hints = 'U:up D:down /:search n/N:next/prev E:edit Q:close';
+        contentBox.setLabel(` ${migration.name}${searchTerm ? ` [/${searchTerm}]` : ''} │ ${hints} `);
+        contentBox.setContent(rows.join('\n'));
+        this.screen.render();
+      };
+
+      const jumpTo = (line: number) => {
+        if (line < 0) return;
+        contentBox.scrollTo(Math.max(0, line - 1));
+        this.screen.render();
+      };
+
+      const jumpToMatch = (step: 1 | -1) => {
+        const matches = matchingLines();
+        if (matches.length === 0) {
+          this.log(`No matches for "${searchTerm}"`, 'info');
+          return;
+        }
+
+        const next = step === 1
+          ? matches.find(index => index > matchIndex) ?? matches[0]
+          : [...matches].reverse().find(index => index < matchIndex) ?? matches[matches.length - 1];
+        matchIndex = next;
+        render();
+        jumpTo(next);
+      };
+
+      const close = () => {
         contentBox.destroy();
+        this.currentView = 'main';
+        this.migrationsList.focus();
         this.screen.render();
+      };
+
+      contentBox.key(['q', 'escape'], close);
+
+      contentBox.key(['u'], () => {
+        if (upLine < 0) this.log('No up migration found in this file', 'info');
+        jumpTo(upLine);
+      });
+
+      contentBox.key(['d'], () => {
+        if (downLine < 0) this.log('No down migration found in this file', 'info');
+        jumpTo(downLine);
+      });
+
+      contentBox.key(['/'], () => {
+        this.promptViewerSearch(searchTerm, (term) => {
+          contentBox.focus();
+          if (term === null) return;
+          searchTerm = term;
+          matchIndex = contentBox.childBase - 1;
+          if (searchTerm) {
+            jumpToMatch(1);
+          } else {
+            matchIndex = -1;
+            render();
+          }
+        });
+      });
+
+      contentBox.key(['n'], () => {
+        if (searchTerm) jumpToMatch(1);
+      });
+
+      contentBox.key(['S-n'], () => {
+        if (searchTerm) jumpToMatch(-1);
+      });
+
+      contentBox.key(['e'], async () => {
+        const line = contentBox.childBase + 1;
+        close();
+        await this.openInEditor(downPath && line > downLine ? downPath : this.core.getMigrationPath(migration));
+        this.core.cache.invalidate('migrations');
+        await this.refreshData();
+
+        const updated = this.migrations.find(m => m.name === migration.name);
+        if (updated) {
+          await this.viewMigrationContent(updated, line);
+        }
       });
 
+      this.currentView = 'details';
+      render();
       contentBox.focus();
+      if (initialLine > 0) jumpTo(initialLine);
       this.screen.render();
     } catch (error: unknown) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -845,29 +1115,97 @@ export class ModernMigrationShell {
     }
   }
 
-  private showMigrationDetails(migration: Migration): void {
-    const details = [
-      `Name: ${migration.name}`,
-      `Timestamp: ${migration.timestamp}`,
-      `Date: ${new Date(migration.timestamp).toLocaleString()}`,
-      `Status: ${migration.status}`,
-      `Size: ${migration.size}`,
-      `Hash: ${migration.hash}`,
-      `Description: ${migration.description || 'No description'}`,
-      '',
-      'Press ESC or Q to close'
-    ].join('\n');
-
-    const detailsModal = blessed.box({
+  private promptViewerSearch(initial: string, done: (term: string | null) => void): void {
+    const searchInput = blessed.textbox({
       parent: this.screen,
-      top: 'center',
+      bottom: 2,
       left: 'center',
-      width: 60,
-      height: 15,
+      width: '50%',
+      height: 3,
+      border: { type: 'line' },
+      label: ' Search in file ',
+      value: initial,
+      inputOnFocus: true,
+      style: {
+        border: { fg: 'yellow' }
+      }
+    });
+
+    searchInput.on('submit', (value: string) => {
+      searchInput.destroy();
+      this.screen.render();
+      done(value.trim());
+    });
+
+    searchInput.on('cancel', () => {
+      searchInput.destroy();
+      this.screen.render();
+      done(null);
+    });
+
+    searchInput.focus();
+    this.screen.render();
+  }
+
+  private openInEditor(filePath: string): Promise<void> {
+    const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+    const [command, ...args] = editor.split(/\s+/).filter(Boolean);
+
+    return new Promise((resolve) => {
+      this.screen.exec(command, [...args, filePath], {}, (error: Error | null, success: boolean) => {
+        if (error) {
+          this.log(`Could not start editor "${editor}": ${error.message}`, 'error');
+        } else if (!success) {
+          this.log(`Editor "${editor}" exited with an error`, 'warning');
+        }
+        resolve();
+      });
+    });
+  }
+
+  private formatFailure(migration: Migration, maxLines: number): string[] {
+    const failure = migration.failure;
+    if (!failure) return [];
+
+    const output = failure.stderr.split('\n').slice(-maxLines);
+
+    return [
+      '',
+      `Failed ${failure.direction === 'up' ? 'applying' : 'reverting'} at ${new Date(failure.failedAt).toLocaleString()} (exit code ${failure.exitCode ?? 'n/a'})`,
+      ...(output.length > 0 && output[0] ? output : ['No error output captured'])
+    ];
+  }
+
+  private showMigrationDetails(migration: Migration): void {
+    const details = [
+      `Name: ${migration.name}`,
+      `Timestamp: ${migration.timestamp}`,
+      `Date: ${new Date(migration.timestamp).toLocaleString()}`,
+      `Status: ${migration.status}`,
+      `Size: ${migration.size ?? 'no file'}`,
+      `Hash: ${migration.hash ?? '-'}`,
+      ...(migration.appliedHash && migration.appliedHash !== migration.hash
+        ? [`Hash when applied: ${migration.appliedHash}`]
+        : []),
+      ...(migration.warnings ?? []).map(warning => `Warning: ${warning}`),
+      `Description: ${migration.description || 'No description'}`,
+      ...this.formatFailure(migration, 20),
+      '',
+      'Press ESC or Q to close'
+    ].join('\n');
+
+    const detailsModal = blessed.box({
+      parent: this.screen,
+      top: 'center',
+      left: 'center',
+      width: migration.failure ? '80%' : 60,
+      height: migration.failure ? '80%' : 15,
       border: { type: 'line' },
       label: ` Migration Details `,
       content: details,
       keys: true,
+      scrollable: true,
+      alwaysScroll: true,
       style: {
         border: { fg: 'yellow' }
       }
@@ -902,11 +1240,8 @@ export class ModernMigrationShell {
       this.screen.render();
       
       if (name.trim()) {
-        await this.executeCommand(
-          `pnpm run migration:create migrations/${name}`,
-          `Creating migration: ${name}`
-        );
-        this.cache.invalidate('migrations');
+        await this.core.createMigration(name);
+        this.core.cache.invalidate('migrations');
         await this.refreshData();
       }
     });
@@ -940,12 +1275,16 @@ export class ModernMigrationShell {
       this.screen.render();
       
       if (name.trim()) {
-        await this.executeCommand(
-          `pnpm run migration:generate migrations/${name}`,
-          `Generating migration: ${name}`
-        );
-        this.cache.invalidate('migrations');
+        const known = new Set(this.migrations.map(m => m.name));
+        const result = await this.core.generateMigration(name);
+        this.core.cache.invalidate('migrations');
         await this.refreshData();
+
+        if (result.success) {
+          for (const migration of this.migrations.filter(m => !known.has(m.name))) {
+            await this.reviewGeneratedMigration(migration);
+          }
+        }
       }
     });
 
@@ -958,93 +1297,666 @@ export class ModernMigrationShell {
     this.screen.render();
   }
 
+  private formatSchemaDiff(diff: TableDiff[]): string[] {
+    const markers = {
+      added: ['+', 'green'],
+      removed: ['-', 'red'],
+      altered: ['~', 'yellow']
+    };
+
+    return diff.flatMap(({ table, changes }) => [
+      `{bold}${escapeTags(table)}{/bold}`,
+      ...changes.map(change => {
+        const [marker, fg] = markers[change.kind];
+        const detail = change.detail ? ` {gray-fg}${escapeTags(change.detail)}{/gray-fg}` : '';
+        return `  {${fg}-fg}${marker} ${change.objectType.padEnd(10)} ${escapeTags(change.name)}{/${fg}-fg}${detail}`;
+      }),
+      ''
+    ]);
+  }
+
+  private async reviewGeneratedMigration(migration: Migration): Promise<void> {
+    let diff: TableDiff[];
+    try {
+      diff = await this.core.getSchemaDiff(migration);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log(`Could not read ${migration.name} for review: ${errorMessage}`, 'error');
+      return;
+    }
+
+    const content = diff.length > 0
+      ? this.formatSchemaDiff(diff)
+      : ['{gray-fg}No schema changes found in the up migration.{/gray-fg}', ''];
+
+    const keep = await new Promise<boolean>((resolve) => {
+      const reviewBox = blessed.box({
+        parent: this.screen,
+        top: 1,
+        left: 1,
+        right: 1,
+        bottom: 1,
+        border: { type: 'line' },
+        label: ` Review: ${migration.name} (A to accept, X to discard) `,
+        content: content.join('\n'),
+        tags: true,
+        scrollable: true,
+        alwaysScroll: true,
+        keys: true,
+        vi: true,
+        mouse: true,
+        style: {
+          border: { fg: 'cyan' }
+        }
+      });
+
+      const close = (result: boolean) => {
+        reviewBox.destroy();
+        this.currentView = 'main';
+        this.migrationsList.focus();
+        this.screen.render();
+        resolve(result);
+      };
+
+      reviewBox.key(['a', 'A', 'enter', 'escape', 'q'], () => close(true));
+
+      reviewBox.key(['x', 'X'], async () => {
+        if (await this.showConfirmation('Discard Migration', `Delete ${migration.name}?`)) {
+          close(false);
+        } else {
+          reviewBox.focus();
+          this.screen.render();
+        }
+      });
+
+      this.currentView = 'details';
+      reviewBox.focus();
+      this.screen.render();
+    });
+
+    if (keep) {
+      this.log(`Kept generated migration ${migration.name}`, 'success');
+      return;
+    }
+
+    try {
+      await this.core.discardMigration(migration);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log(errorMessage, 'error');
+    }
+    await this.refreshData();
+  }
+
   private async applyMigrations(): Promise<void> {
-    const confirmed = await this.showConfirmation(
-      'Apply Migrations',
-      'Apply all pending migrations?'
-    );
+    const plan = await this.createPlanOrWarn(() => this.core.planUp());
+    if (plan === undefined) return;
+
+    const confirmed = plan
+      ? await this.showPlanConfirmation('Apply Migrations', plan)
+      : await this.showConfirmation('Apply Migrations', 'Apply all pending migrations?');
+    const protection = confirmed ? await this.confirmProtectedProfile('Apply Migrations') : null;
+    // Without a plan (no database connection) every pending migration in the list would run.
+    const migrations = plan ? plan.steps.map(step => step.migration) : this.migrations.filter(isMigrationPending);
+    const options = protection ? await this.confirmLintOverride('Apply Migrations', migrations) : null;
     
-    if (confirmed) {
-      await this.executeCommand(
-        this.commands.migrateUp,
-        'Applying migrations'
-      );
-      this.cache.invalidate('migrations');
+    if (options) {
+      await this.core.migrateUp({ ...protection, ...options });
+      this.core.cache.invalidate('migrations');
       await this.refreshData();
     }
   }
 
   private async revertMigration(): Promise<void> {
-    const confirmed = await this.showConfirmation(
-      'Revert Migration',
-      'Revert the last applied migration?'
-    );
+    const plan = await this.createPlanOrWarn(() => this.core.planDown());
+    if (plan === undefined) return;
+
+    const confirmed = plan
+      ? await this.showPlanConfirmation('Revert Migration', plan)
+      : await this.showConfirmation('Revert Migration', 'Revert the last applied migration?');
+    const options = confirmed ? await this.confirmProtectedProfile('Revert Migration') : null;
     
-    if (confirmed) {
-      await this.executeCommand(
-        this.commands.migrateDown,
-        'Reverting migration'
-      );
-      this.cache.invalidate('migrations');
+    if (options) {
+      await this.core.migrateDown(options);
+      this.core.cache.invalidate('migrations');
       await this.refreshData();
     }
   }
 
+  // Resolves to null when the plan could not be built because the database status is unavailable,
+  // so the caller can still fall back to a plain confirmation, and to undefined when there is nothing to do.
+  private async createPlanOrWarn(createPlan: () => Promise<MigrationPlan>): Promise<MigrationPlan | null | undefined> {
+    try {
+      return await createPlan();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log(errorMessage, this.dbInfo.connected ? 'info' : 'warning');
+      return this.dbInfo.connected ? undefined : null;
+    }
+  }
+
+  // Resolves to the options carrying the typed database name, or to null when cancelled.
+  private async confirmProtectedProfile(title: string): Promise<RunOptions | null> {
+    if (!this.core.isProtected()) return {};
+
+    const expected = this.core.getConfirmationName();
+    if (!expected) {
+      this.log(`${title} cancelled: profile ${this.core.activeProfile} is protected but has no database name configured`, 'error');
+      return null;
+    }
+
+    return new Promise((resolve) => {
+      const promptBox = blessed.box({
+        parent: this.screen,
+        top: 'center',
+        left: 'center',
+        width: 60,
+        height: 8,
+        border: { type: 'line' },
+        label: ` 🔒 ${title} `,
+        content: `{center}Profile {bold}${this.core.activeProfile}{/bold} is protected.{/center}\n{center}Type the database name ({bold}${expected}{/bold}) to confirm:{/center}`,
+        tags: true,
+        style: {
+          border: { fg: 'red' }
+        }
+      });
+
+      const input = blessed.textbox({
+        parent: promptBox,
+        bottom: 0,
+        left: 1,
+        right: 1,
+        height: 1,
+        inputOnFocus: true,
+        style: {
+          fg: 'white',
+          bg: 'black'
+        }
+      });
+
+      const close = (result: RunOptions | null) => {
+        promptBox.destroy();
+        this.screen.render();
+        resolve(result);
+      };
+
+      input.on('submit', (value) => {
+        const confirm = value.trim();
+        if (confirm !== expected) {
+          this.log(`${title} cancelled: database name did not match`, 'warning');
+        }
+        close(confirm === expected ? { confirm } : null);
+      });
+
+      input.on('cancel', () => close(null));
+
+      input.focus();
+      this.screen.render();
+    });
+  }
+
+  private async confirmLintOverride(title: string, migrations: Migration[]): Promise<RunOptions | null> {
+    const blocking = migrations.filter(migration => getLintErrors(migration.lint).length > 0);
+    if (blocking.length === 0) return {};
+
+    const listed = blocking.slice(0, 5).map(migration =>
+      `{red-fg}${blessed.escape(migration.name)}: ${getLintErrors(migration.lint).map(finding => finding.rule).join(', ')}{/red-fg}`
+    );
+    if (blocking.length > listed.length) {
+      listed.push(`...and ${blocking.length - listed.length} more`);
+    }
+
+    return new Promise((resolve) => {
+      const promptBox = blessed.box({
+        parent: this.screen,
+        top: 'center',
+        left: 'center',
+        width: '70%',
+        height: listed.length + 7,
+        border: { type: 'line' },
+        label: ` ✖ ${title}: Lint Errors `,
+        content: [
+          '{center}These migrations have lint errors:{/center}',
+          ...listed,
+          '',
+          '{center}Type {bold}OVERRIDE{/bold} to run them anyway:{/center}'
+        ].join('\n'),
+        tags: true,
+        style: {
+          border: { fg: 'red' }
+        }
+      });
+
+      const input = blessed.textbox({
+        parent: promptBox,
+        bottom: 0,
+        left: 1,
+        right: 1,
+        height: 1,
+        inputOnFocus: true,
+        style: {
+          fg: 'white',
+          bg: 'black'
+        }
+      });
+
+      const close = (result: RunOptions | null) => {
+        promptBox.destroy();
+        this.screen.render();
+        resolve(result);
+      };
+
+      input.on('submit', (value) => {
+        if (value.trim() !== 'OVERRIDE') {
+          this.log(`${title} cancelled: lint errors were not overridden`, 'warning');
+          close(null);
+          return;
+        }
+        close({ overrideLint: true });
+      });
+
+      input.on('cancel', () => close(null));
+
+      input.focus();
+      this.screen.render();
+    });
+  }
+
+  private showProfileSwitcher(): void {
+    const profiles = this.core.getProfileNames();
+
+    if (profiles.length === 0) {
+      this.log('No profiles defined in config', 'warning');
+      return;
+    }
+
+    const items = profiles.map(name => {
+      const marker = name === this.core.activeProfile ? '● ' : '  ';
+      const lock = this.core.config.profiles?.[name]?.protected ? ' 🔒' : '';
+      return `${marker}${name}${lock}`;
+    });
+
+    const profileBox = blessed.list({
+      parent: this.screen,
+      top: 'center',
+      left: 'center',
+      width: 40,
+      height: items.length + 4,
+      border: { type: 'line' },
+      label: ' Switch Profile ',
+      items,
+      keys: true,
+      vi: true,
+      mouse: true,
+      style: {
+        border: { fg: 'cyan' },
+        selected: {
+          bg: 'blue',
+          fg: 'white'
+        }
+      }
+    });
+
+    profileBox.on('select', async (item, index) => {
+      profileBox.destroy();
+      this.screen.render();
+
+      const name = profiles[index];
+      if (name === this.core.activeProfile) return;
+
+      this.core.useProfile(name);
+      this.log(`Switched to profile: ${name}`, 'info');
+      this.updateDatabaseStatus();
+      await this.refreshData();
+    });
+
+    profileBox.key(['q', 'escape'], () => {
+      profileBox.destroy();
+      this.screen.render();
+    });
+
+    profileBox.focus();
+    this.screen.render();
+  }
+
+  private async showHistory(): Promise<void> {
+    if (this.currentView === 'logs') return;
+
+    let entries: HistoryEntry[];
+    try {
+      entries = (await this.core.history.read()).reverse();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log(`Could not read run history: ${errorMessage}`, 'error');
+      return;
+    }
+
+    if (entries.length === 0) {
+      this.log(`No runs recorded yet in ${this.core.history.filePath}`, 'info');
+      return;
+    }
+
+    const items = entries.map(entry => {
+      const icon = entry.success ? '{green-fg}✔{/green-fg}' : entry.cancelled ? '{yellow-fg}■{/yellow-fg}' : '{red-fg}✖{/red-fg}';
+      const date = new Date(entry.startedAt).toLocaleString();
+      const duration = `${(entry.durationMs / 1000).toFixed(1)}s`;
+      const count = entry.migrations.length;
+      return `${icon} ${date} | ${entry.operation.padEnd(8)} | ${entry.profile ?? '-'} | ${blessed.escape(entry.gitUser ?? entry.user)} | ${duration} | ${count} migration${count === 1 ? '' : 's'}`;
+    });
+
+    this.currentView = 'logs';
+
+    const historyList = blessed.list({
+      parent: this.screen,
+      top: 1,
+      left: 1,
+      right: 1,
+      bottom: 1,
+      border: { type: 'line' },
+      label: ` 📜 Run History (${entries.length}) `,
+      items,
+      tags: true,
+      keys: true,
+      vi: true,
+      mouse: true,
+      scrollbar: {
+        ch: ' ',
+        style: { bg: 'blue' }
+      },
+      style: {
+        border: { fg: 'magenta' },
+        selected: {
+          bg: 'blue',
+          fg: 'white'
+        }
+      }
+    });
+
+    historyList.on('select', (item, index) => {
+      this.showHistoryEntry(entries[index], historyList);
+    });
+
+    historyList.key(['q', 'escape'], () => {
+      historyList.destroy();
+      this.currentView = 'main';
+      this.migrationsList.focus();
+      this.screen.render();
+    });
+
+    historyList.focus();
+    this.screen.render();
+  }
+
+  private showHistoryEntry(entry: HistoryEntry, parent: blessed.Widgets.ListElement): void {
+    const content = [
+      `{bold}${blessed.escape(entry.description)}{/bold}`,
+      '',
+      `Status: ${entry.success ? '{green-fg}success{/green-fg}' : entry.cancelled ? '{yellow-fg}cancelled{/yellow-fg}' : '{red-fg}failed{/red-fg}'} (exit code ${entry.exitCode ?? 'n/a'})`,
+      `Started: ${new Date(entry.startedAt).toLocaleString()}`,
+      `Duration: ${(entry.durationMs / 1000).toFixed(1)}s`,
+      `User: ${blessed.escape(entry.user)}${entry.gitUser ? ` (git: ${blessed.escape(entry.gitUser)})` : ''}`,
+      `Profile: ${entry.profile ?? '-'}`,
+      `Database: ${blessed.escape(entry.database)}@${blessed.escape(entry.host)}`,
+      '',
+      '{bold}Commands:{/bold}',
+      ...(entry.commands.length > 0 ? entry.commands.map(command => blessed.escape(command)) : ['-']),
+      '',
+      '{bold}Affected migrations:{/bold}',
+      ...(entry.migrations.length > 0 ? entry.migrations : ['-']),
+      '',
+      '{bold}Output:{/bold}',
+      blessed.escape(entry.output || 'No output')
+    ].join('\n');
+
+    const entryBox = blessed.box({
+      parent: this.screen,
+      top: 2,
+      left: 3,
+      right: 3,
+      bottom: 2,
+      border: { type: 'line' },
+      label: ` Run ${entry.id} `,
+      content,
+      tags: true,
+      scrollable: true,
+      alwaysScroll: true,
+      keys: true,
+      vi: true,
+      mouse: true,
+      style: {
+        border: { fg: entry.success ? 'green' : 'red' }
+      }
+    });
+
+    entryBox.key(['q', 'escape'], () => {
+      entryBox.destroy();
+      parent.focus();
+      this.screen.render();
+    });
+
+    entryBox.focus();
+    this.screen.render();
+  }
+
   private async applySpecificMigration(migration: Migration): Promise<void> {
-    this.log(`Applying specific migration not directly supported. Use 'Apply All' instead.`, 'warning');
+    await this.runTargetedPlan('Apply Migration', () => this.core.planApply(migration));
   }
 
   private async revertSpecificMigration(migration: Migration): Promise<void> {
-    this.log(`Reverting specific migration not directly supported. Use 'Revert Last' instead.`, 'warning');
+    await this.runTargetedPlan('Revert Migration', () => this.core.planRevert(migration));
   }
 
-  private async executeCommand(command: string, description: string): Promise<void> {
-    this.log(`${description}...`, 'info');
-    
+  private async migrateToMigration(migration: Migration): Promise<void> {
+    await this.runTargetedPlan('Migrate To Here', () => this.core.planMigrateTo(migration));
+  }
+
+  private async runTargetedPlan(title: string, createPlan: () => Promise<MigrationPlan>): Promise<void> {
+    let plan: MigrationPlan;
+
     try {
-      const child = spawn('sh', ['-c', command], {
-        stdio: ['pipe', 'pipe', 'pipe']
-      });
+      plan = await createPlan();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log(errorMessage, 'warning');
+      return;
+    }
+
+    if (plan.steps.length === 0) {
+      this.log(`Database is already at ${plan.target.name}`, 'info');
+      return;
+    }
+
+    const confirmed = await this.showPlanConfirmation(title, plan);
+    const protection = confirmed ? await this.confirmProtectedProfile(title) : null;
+    const ups = plan.steps.filter(step => step.direction === 'up').map(step => step.migration);
+    const options = protection ? await this.confirmLintOverride(title, ups) : null;
+
+    if (!options) return;
+
+    const results = await this.core.executePlan(plan, (index, step, result) => {
+      this.updatePlanProgress(plan, index, step, result);
+    }, { ...protection, ...options });
+    const failed = results.find(step => !step.result.success);
+
+    if (failed) {
+      this.log(`${title} stopped at ${failed.migration.name}`, 'error');
+    } else {
+      this.log(`${title} ${plan.target.name} finished (${results.length} step(s))`, 'success');
+    }
+
+    await this.refreshData();
+  }
 
-      let output = '';
-      let errorOutput = '';
+  private updatePlanProgress(plan: MigrationPlan, index: number, step: MigrationPlanStep, result?: CommandResult): void {
+    const total = plan.steps.length;
+    const done = result ? index + 1 : index;
+    const filled = Math.floor((done / total) * 20);
+    const arrow = step.direction === 'up' ? '⬆️' : '⬇️';
+    const state = !result ? '{yellow-fg}running{/yellow-fg}' : result.success ? '{green-fg}done{/green-fg}' : '{red-fg}failed{/red-fg}';
+
+    this.progressBox.setContent([
+      `Step ${index + 1}/${total}: ${state}`,
+      `[${'█'.repeat(filled)}${'░'.repeat(20 - filled)}]`,
+      `${arrow} ${step.migration.name}`,
+      `Target: ${plan.target.name}`
+    ].join('\n'));
+    this.screen.render();
+  }
+
+  private async showPlanConfirmation(title: string, plan: MigrationPlan): Promise<boolean> {
+    const ups = plan.steps.filter(step => step.direction === 'up').length;
+    const downs = plan.steps.length - ups;
+    const note = {
+      single: 'Each migration is run individually.',
+      all: 'The runner applies all pending migrations at once.',
+      sequential: 'Migrations are reverted one at a time, newest first.'
+    }[plan.strategy];
+
+    const content = [
+      `Target: {bold}${plan.target.name}{/bold}`,
+      `This will revert {bold}${downs}{/bold} and apply {bold}${ups}{/bold} migration(s):`,
+      '',
+      ...plan.steps.map((step, index) => {
+        const arrow = step.direction === 'up' ? '{green-fg}⬆ up  {/green-fg}' : '{yellow-fg}⬇ down{/yellow-fg}';
+        const badges = step.direction === 'up' ? this.formatLintBadges(step.migration) : '';
+        return `  ${index + 1}. ${arrow} ${step.migration.name}${badges}`;
+      }),
+      '',
+      `{gray-fg}${note}{/gray-fg}`,
+      '',
+      '{center}Press Y to confirm, S to preview SQL, N to cancel{/center}'
+    ].join('\n');
 
-      child.stdout.on('data', (data) => {
-        output += data.toString();
+    return new Promise((resolve) => {
+      const planBox = blessed.box({
+        parent: this.screen,
+        top: 'center',
+        left: 'center',
+        width: '70%',
+        height: Math.min(plan.steps.length + 11, 30),
+        border: { type: 'line' },
+        label: ` ${title} `,
+        content,
+        tags: true,
+        keys: true,
+        vi: true,
+        mouse: true,
+        scrollable: true,
+        alwaysScroll: true,
+        style: {
+          border: { fg: downs > 0 ? 'yellow' : 'green' }
+        }
       });
 
-      child.stderr.on('data', (data) => {
-        errorOutput += data.toString();
+      planBox.key(['y', 'Y'], () => {
+        planBox.destroy();
+        this.screen.render();
+        resolve(true);
       });
 
-      await new Promise<void>((resolve, reject) => {
-        child.on('close', (code) => {
-          if (code === 0) {
-            this.log(`${description} completed successfully`, 'success');
-            if (output.trim()) {
-              this.log(output.trim(), 'info');
-            }
-            resolve();
-          } else {
-            this.log(`${description} failed with code ${code}`, 'error');
-            if (errorOutput.trim()) {
-              this.log(errorOutput.trim(), 'error');
-            }
-            reject(new Error(`Command failed with code ${code}`));
-          }
-        });
+      planBox.key(['n', 'N', 'escape', 'q'], () => {
+        planBox.destroy();
+        this.screen.render();
+        resolve(false);
+      });
 
-        child.on('error', (error) => {
-          this.log(`${description} failed: ${error.message}`, 'error');
-          reject(error);
-        });
+      planBox.key(['s', 'S'], () => {
+        this.showSqlPreview(title, plan, planBox);
       });
-    } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      this.log(`Error executing command: ${errorMessage}`, 'error');
+
+      planBox.focus();
+      this.screen.render();
+    });
+  }
+
+  private async showSqlPreview(title: string, plan: MigrationPlan, parent: blessed.Widgets.BoxElement): Promise<void> {
+    const previewBox = blessed.box({
+      parent: this.screen,
+      top: 1,
+      left: 1,
+      right: 1,
+      bottom: 1,
+      border: { type: 'line' },
+      label: ` SQL Preview: ${title} `,
+      content: 'Recording SQL...',
+      scrollable: true,
+      alwaysScroll: true,
+      keys: true,
+      vi: true,
+      mouse: true,
+      style: {
+        border: { fg: 'cyan' }
+      }
+    });
+
+    const close = () => {
+      previewBox.destroy();
+      parent.focus();
+      this.screen.render();
+    };
+
+    previewBox.key(['q', 'escape'], close);
+    previewBox.focus();
+    this.screen.render();
+
+    const previews = await this.core.previewPlan(plan);
+    const sql = formatSqlPreview(previews, [
+      `${title}: ${plan.target.name}`,
+      `Profile: ${this.core.activeProfile ?? 'default'}, database: ${this.dbInfo.database}@${this.dbInfo.host}`,
+      `Generated: ${new Date().toISOString()}`
+    ]);
+
+    if (!previewBox.detached) {
+      previewBox.setContent(sql);
+      previewBox.setLabel(` SQL Preview: ${title} (E to export, ESC to close) `);
+      previewBox.key(['e', 'E'], () => this.exportSqlPreview(sql, previewBox));
+      this.screen.render();
     }
   }
 
+  private exportSqlPreview(sql: string, parent: blessed.Widgets.BoxElement): void {
+    const pathBox = blessed.textbox({
+      parent: this.screen,
+      top: 'center',
+      left: 'center',
+      width: '60%',
+      height: 3,
+      border: { type: 'line' },
+      label: ' Export SQL to File ',
+      value: `migration-preview-${Date.now()}.sql`,
+      inputOnFocus: true,
+      style: {
+        border: { fg: 'green' }
+      }
+    });
+
+    pathBox.on('submit', async (value: string) => {
+      pathBox.destroy();
+      parent.focus();
+      this.screen.render();
+
+      if (!value.trim()) return;
+
+      const filePath = path.resolve(value.trim());
+      try {
+        await fs.writeFile(filePath, sql, 'utf-8');
+        this.log(`SQL preview written to ${filePath}`, 'success');
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        this.log(`Could not write SQL preview: ${errorMessage}`, 'error');
+      }
+    });
+
+    pathBox.on('cancel', () => {
+      pathBox.destroy();
+      parent.focus();
+      this.screen.render();
+    });
+
+    pathBox.focus();
+    this.screen.render();
+  }
+
   private async showConfirmation(title: string, message: string): Promise<boolean> {
     return new Promise((resolve) => {
       const confirmBox = blessed.box({
@@ -1124,23 +2036,33 @@ export class ModernMigrationShell {
       '',
       '{bold}Keyboard Shortcuts:{/bold}',
       '• {bold}F1/H{/bold} - Show this help',
-      '• {bold}F2{/bold} - Toggle auto-refresh (30s)',
+      `• {bold}F2{/bold} - Toggle auto-refresh (${Math.round(this.autoRefreshMs / 1000)}s)`,
       '• {bold}F3{/bold} - Search migrations',
-      '• {bold}F4{/bold} - Cycle filter (all/pending/applied/failed)',
+      '• {bold}F4{/bold} - Cycle filter (all/pending/applied/failed/modified/orphaned)',
       '• {bold}F5/R{/bold} - Refresh data',
+      '• {bold}F6/L{/bold} - Show run history',
       '• {bold}TAB{/bold} - Cycle focus between panels',
       '',
       '{bold}Migration Actions:{/bold}',
       '• {bold}N{/bold} - Create new migration',
-      '• {bold}G{/bold} - Generate migration from schema',
+      '• {bold}G{/bold} - Generate migration from schema and review its diff',
       '• {bold}U{/bold} - Apply all pending migrations',
       '• {bold}D{/bold} - Revert last migration',
+      '• {bold}P{/bold} - Switch environment profile',
+      '• {bold}T{/bold} - Migrate to selected migration (up or down)',
       '• {bold}V{/bold} - View selected migration content',
+      '',
+      '{bold}Migration Viewer:{/bold}',
+      '• {bold}U/D{/bold} - Jump to the up/down migration',
+      '• {bold}/{/bold} - Search in file, {bold}n/N{/bold} - Next/previous match',
+      '• {bold}E{/bold} - Open in $EDITOR (refreshes on return)',
       '• {bold}ENTER{/bold} - Show migration actions menu',
       '',
       '{bold}Database:{/bold}',
       '• {bold}S{/bold} - Show migration status',
       '• {bold}C{/bold} - Test database connection',
+      '• {bold}X{/bold} - Cancel the running command or an in-flight status check',
+      '• {bold}F7{/bold} - Show the migration lock holder, force unlock',
       '',
       '{bold}General:{/bold}',
       '• {bold}Q/ESC{/bold} - Quit application',
@@ -1148,7 +2070,8 @@ export class ModernMigrationShell {
       '{bold}Features:{/bold}',
       '• Real-time migration status',
       '• Smart caching for performance',
-      '• Auto-refresh every 30 seconds',
+      '• Migrations directory is watched for changes',
+      `• Auto-refresh every ${Math.round(this.autoRefreshMs / 1000)} seconds`,
       '• Search and filter migrations',
       '• Detailed migration information',
       '• Mouse and keyboard support',
@@ -1206,10 +2129,13 @@ export class ModernMigrationShell {
       }
     });
 
-    exitBox.key(['y', 'Y'], () => {
+    exitBox.key(['y', 'Y'], async () => {
       if (this.autoRefreshInterval) {
         clearInterval(this.autoRefreshInterval);
       }
+      this.stopWatcher();
+      this.core.terminateRunningCommand();
+      await this.core.dispose().catch(() => {});
       process.exit(0);
     });
 
@@ -1227,19 +2153,142 @@ export class ModernMigrationShell {
       this.log('Refreshing data...', 'info');
     }
     
-    this.cache.clear();
+    this.core.cache.clear();
     await this.loadMigrations();
     await this.connectToDatabase();
+    await this.refreshLock();
     this.updateDetails();
     this.screen.render();
   }
 
-  private async showMigrationStatus(): Promise<void> {
+  private async refreshLock(): Promise<void> {
     try {
-      const output = execSync(this.commands.showStatus, { 
-        encoding: 'utf-8',
-        timeout: 10000
+      this.lockHolder = await this.core.getLockHolder();
+    } catch {
+      this.lockHolder = null;
+    }
+    this.updateDatabaseStatus();
+  }
+
+  private async showLockStatus(): Promise<void> {
+    await this.refreshLock();
+    const holder = this.lockHolder;
+
+    const content = holder
+      ? [
+          `{bold}Locked by:{/bold} ${blessed.escape(`${holder.user}@${holder.host}`)}`,
+          `{bold}Since:{/bold} ${new Date(holder.acquiredAt).toLocaleString()}`,
+          ...(holder.operation ? [`{bold}Operation:{/bold} ${blessed.escape(holder.operation)}`] : []),
+          ...(holder.pid ? [`{bold}Process:{/bold} ${holder.pid}`] : []),
+          '',
+          '{center}Press F to force unlock, ESC to close{/center}'
+        ]
+      : ['{center}Migrations are not locked{/center}', '', '{center}Press ESC to close{/center}'];
+
+    const lockBox = blessed.box({
+      parent: this.screen,
+      top: 'center',
+      left: 'center',
+      width: 60,
+      height: content.length + 2,
+      border: { type: 'line' },
+      label: holder ? ' 🔒 Migration Lock ' : ' 🔓 Migration Lock ',
+      content: content.join('\n'),
+      tags: true,
+      keys: true,
+      style: {
+        border: { fg: holder ? 'red' : 'green' }
+      }
+    });
+
+    const close = () => {
+      lockBox.destroy();
+      this.migrationsList.focus();
+      this.screen.render();
+    };
+
+    lockBox.key(['escape', 'q', 'enter'], close);
+
+    if (holder) {
+      lockBox.key(['f', 'F'], async () => {
+        close();
+        if (await this.confirmForceUnlock(holder)) {
+          try {
+            await this.core.forceUnlock();
+          } catch (error: unknown) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this.log(`Force unlock failed: ${errorMessage}`, 'error');
+          }
+          await this.refreshLock();
+          this.screen.render();
+        }
+      });
+    }
+
+    lockBox.focus();
+    this.screen.render();
+  }
+
+  private confirmForceUnlock(holder: LockHolder): Promise<boolean> {
+    return new Promise((resolve) => {
+      const promptBox = blessed.box({
+        parent: this.screen,
+        top: 'center',
+        left: 'center',
+        width: 64,
+        height: 8,
+        border: { type: 'line' },
+        label: ' ⚠️ Force Unlock ',
+        content: [
+          `{center}Only do this if ${blessed.escape(holder.user)}'s run is no longer active.{/center}`,
+          '{center}Running migrations concurrently can corrupt the schema.{/center}',
+          '{center}Type {bold}UNLOCK{/bold} to release the lock:{/center}'
+        ].join('\n'),
+        tags: true,
+        style: {
+          border: { fg: 'red' }
+        }
       });
+
+      const input = blessed.textbox({
+        parent: promptBox,
+        bottom: 0,
+        left: 1,
+        right: 1,
+        height: 1,
+        inputOnFocus: true,
+        style: {
+          fg: 'white',
+          bg: 'black'
+        }
+      });
+
+      const close = (result: boolean) => {
+        promptBox.destroy();
+        this.migrationsList.focus();
+        this.screen.render();
+        resolve(result);
+      };
+
+      input.on('submit', (value) => {
+        if (value.trim() !== 'UNLOCK') {
+          this.log('Force unlock cancelled', 'warning');
+          close(false);
+          return;
+        }
+        close(true);
+      });
+
+      input.on('cancel', () => close(false));
+
+      input.focus();
+      this.screen.render();
+    });
+  }
+
+  private async showMigrationStatus(): Promise<void> {
+    try {
+      const output = await this.withStatusSpinner(() => this.core.getStatusOutput());
       
       const statusBox = blessed.box({
         parent: this.screen,
@@ -1273,30 +2322,19 @@ export class ModernMigrationShell {
     }
   }
 
-  private async connectToDatabase(): Promise<void> {
-    if (!this.dbInfo.connected) {
+  private async connectToDatabase(force: boolean = false): Promise<void> {
+    if (!this.dbInfo.connected || force) {
       this.log('Testing database connection...', 'info');
     }
     
-    try {
-      execSync(this.commands.showStatus, { 
-        encoding: 'utf-8', 
-        timeout: 5000,
-        stdio: ['pipe', 'pipe', 'pipe']
-      });
-      
-      if (!this.dbInfo.connected) {
-        this.dbInfo.connected = true;
-        this.updateDatabaseStatus();
-        this.log('Database connection successful', 'success');
-      }
-    } catch (error: unknown) {
-      if (this.dbInfo.connected) {
-        this.dbInfo.connected = false;
-        this.updateDatabaseStatus();
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        this.log(`Database connection lost: ${errorMessage}`, 'error');
-      }
+    const wasConnected = this.dbInfo.connected;
+    const connected = await this.withStatusSpinner(() => this.core.checkConnection(force ? 0 : 5000));
+
+    if (force && connected === wasConnected) {
+      this.log(connected ? 'Database connection successful' : 'Database is unreachable', connected ? 'success' : 'error');
+    } else if (connected !== wasConnected) {
+      this.updateDatabaseStatus();
+      this.log(connected ? 'Database connection successful' : 'Database connection lost', connected ? 'success' : 'error');
     }
     
     this.screen.render();
@@ -1307,6 +2345,8 @@ export class ModernMigrationShell {
     
     await this.loadMigrations();
     await this.connectToDatabase();
+    await this.refreshLock();
+    this.setupWatcher();
     this.migrationsList.focus();
     this.screen.render();
   }
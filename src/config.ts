@@ -0,0 +1,342 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { builtinAdapters } from './adapters';
+import { LINT_RULES, LINT_SEVERITIES } from './lint';
+import { getDefaultExport, ModuleLoadError, requireFile } from './loader';
+import { MigrationShellConfig } from './types';
+
+export const CONFIG_FILE_NAMES = [
+  'migration-manager.config.json',
+  'migration-manager.config.js',
+  'migration-manager.config.ts'
+];
+
+export const PACKAGE_JSON_KEY = 'migrationManager';
+
+export interface LoadedConfig {
+  config: MigrationShellConfig;
+  filePath: string;
+}
+
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath?: string,
+    public readonly errors: string[] = []
+  ) {
+    super(errors.length > 0 ? `${message}\n${errors.map(e => `  - ${e}`).join('\n')}` : message);
+    this.name = 'ConfigError';
+  }
+}
+
+type SchemaNode =
+  | { type: 'boolean' | 'function' }
+  | { type: 'string'; oneOf?: string[] }
+  | { type: 'array'; items: SchemaNode }
+  | { type: 'number'; min?: number }
+  | { type: 'object'; properties: Record<string, SchemaNode>; required?: string[] }
+  | { type: 'record'; values: SchemaNode }
+  | { type: 'union'; options: SchemaNode[] };
+
+const commandsSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    showStatus: { type: 'string' },
+    migrateUp: { type: 'string' },
+    migrateDown: { type: 'string' },
+    create: { type: 'string' },
+    generate: { type: 'string' }
+  }
+};
+
+const databaseSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    host: { type: 'string' },
+    name: { type: 'string' }
+  }
+};
+
+const hookSchema: SchemaNode = { type: 'union', options: [{ type: 'string' }, { type: 'function' }] };
+
+const hooksSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    beforeUp: hookSchema,
+    afterUp: hookSchema,
+    beforeDown: hookSchema,
+    afterDown: hookSchema,
+    onFailure: hookSchema
+  }
+};
+
+const configSchema: SchemaNode = {
+  type: 'object',
+  properties: {
+    migrationsDir: { type: 'string' },
+    historyFile: { type: 'string' },
+    checksumFile: { type: 'string' },
+    metadataCacheFile: { type: 'string' },
+    autoRefreshInterval: { type: 'number', min: 1000 },
+    watch: { type: 'boolean' },
+    statusTimeout: { type: 'number', min: 1000 },
+    cancelGracePeriod: { type: 'number', min: 0 },
+    lockFile: { type: 'string' },
+    hooks: hooksSchema,
+    commands: commandsSchema,
+    database: databaseSchema,
+    dataSource: { type: 'string' },
+    adapter: { type: 'string' },
+    adapters: {
+      type: 'record',
+      values: { type: 'union', options: [{ type: 'string' }, { type: 'function' }] }
+    },
+    sql: {
+      type: 'object',
+      properties: {
+        execute: { type: 'string' },
+        query: { type: 'string' },
+        table: { type: 'string' }
+      },
+      required: ['execute', 'query']
+    },
+    profiles: {
+      type: 'record',
+      values: {
+        type: 'object',
+        properties: {
+          commands: commandsSchema,
+          database: databaseSchema,
+          dataSource: { type: 'string' },
+          adapter: { type: 'string' },
+          env: { type: 'record', values: { type: 'string' } },
+          protected: { type: 'boolean' },
+          hooks: hooksSchema
+        }
+      }
+    },
+    defaultProfile: { type: 'string' },
+    lint: {
+      type: 'object',
+      properties: {
+        rules: {
+          type: 'object',
+          properties: Object.fromEntries(
+            Object.keys(LINT_RULES).map(rule => [rule, { type: 'string', oneOf: [...LINT_SEVERITIES, 'off'] }])
+          )
+        },
+        largeTables: { type: 'array', items: { type: 'string' } }
+      }
+    }
+  }
+};
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function validateNode(value: unknown, schema: SchemaNode, at: string, errors: string[]): void {
+  if (schema.type === 'union') {
+    const matches = schema.options.some(option => {
+      const optionErrors: string[] = [];
+      validateNode(value, option, at, optionErrors);
+      return optionErrors.length === 0;
+    });
+
+    if (!matches) {
+      errors.push(`${at}: expected ${schema.options.map(option => option.type).join(' or ')}, got ${describeType(value)}`);
+    }
+    return;
+  }
+
+  const actual = describeType(value);
+  const expected = schema.type === 'record' ? 'object' : schema.type;
+
+  if (actual !== expected) {
+    errors.push(`${at}: expected ${schema.type}, got ${actual}`);
+    return;
+  }
+
+  if (schema.type === 'number' && schema.min !== undefined && (value as number) < schema.min) {
+    errors.push(`${at}: must be at least ${schema.min}`);
+  }
+
+  if (schema.type === 'string' && (value as string).trim() === '') {
+    errors.push(`${at}: must not be empty`);
+  }
+
+  if (schema.type === 'string' && schema.oneOf && !schema.oneOf.includes(value as string)) {
+    errors.push(`${at}: must be one of: ${schema.oneOf.join(', ')}`);
+  }
+
+  if (schema.type === 'array') {
+    (value as unknown[]).forEach((item, index) => validateNode(item, schema.items, `${at}[${index}]`, errors));
+  }
+
+  if (schema.type === 'object') {
+    const record = value as Record<string, unknown>;
+    const known = Object.keys(schema.properties);
+
+    for (const key of Object.keys(record)) {
+      const child = schema.properties[key];
+      if (!child) {
+        errors.push(`${at}.${key}: unknown option (expected one of: ${known.join(', ')})`);
+      } else if (record[key] !== undefined) {
+        validateNode(record[key], child, `${at}.${key}`, errors);
+      }
+    }
+
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        errors.push(`${at}.${key}: is required`);
+      }
+    }
+  }
+
+  if (schema.type === 'record') {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      validateNode(child, schema.values, `${at}.${key}`, errors);
+    }
+  }
+}
+
+export function validateConfig(value: unknown, filePath?: string): MigrationShellConfig {
+  const errors: string[] = [];
+  validateNode(value, configSchema, 'config', errors);
+
+  const config = value as MigrationShellConfig;
+  if (errors.length === 0 && config.defaultProfile && !config.profiles?.[config.defaultProfile]) {
+    errors.push(`config.defaultProfile: profile "${config.defaultProfile}" is not defined in config.profiles`);
+  }
+
+  if (errors.length === 0) {
+    const adapters = [...Object.keys(builtinAdapters), ...Object.keys(config.adapters ?? {})];
+    const selected = [
+      ['config.adapter', config.adapter],
+      ...Object.entries(config.profiles ?? {}).map(([name, profile]) => [`config.profiles.${name}.adapter`, profile.adapter])
+    ];
+
+    for (const [at, adapter] of selected) {
+      if (adapter && !adapters.includes(adapter)) {
+        errors.push(`${at}: unknown adapter "${adapter}" (expected one of: ${adapters.join(', ')})`);
+      } else if (adapter === 'sql' && !config.sql) {
+        errors.push(`${at}: the "sql" adapter requires a config.sql section`);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    const source = filePath ? ` in ${filePath}` : '';
+    throw new ConfigError(`Invalid migration manager configuration${source}:`, filePath, errors);
+  }
+
+  return config;
+}
+
+async function readConfigFile(filePath: string): Promise<unknown> {
+  try {
+    if (filePath.endsWith('.json')) {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    }
+
+    const value = getDefaultExport(await requireFile(filePath));
+    return typeof value === 'function' ? await value() : value;
+  } catch (error: unknown) {
+    if (error instanceof ModuleLoadError) {
+      throw new ConfigError(error.message, filePath);
+    }
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new ConfigError(`Could not load config file ${filePath}: ${errorMessage}`, filePath);
+  }
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readPackageJsonConfig(dir: string): Promise<unknown | undefined> {
+  const filePath = path.join(dir, 'package.json');
+  if (!(await exists(filePath))) return undefined;
+
+  try {
+    const pkg = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    return pkg[PACKAGE_JSON_KEY];
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new ConfigError(`Could not parse ${filePath}: ${errorMessage}`, filePath);
+  }
+}
+
+export async function findConfigFile(cwd: string = process.cwd()): Promise<string | null> {
+  let dir = path.resolve(cwd);
+
+  while (true) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = path.join(dir, name);
+      if (await exists(candidate)) {
+        return candidate;
+      }
+    }
+
+    if ((await readPackageJsonConfig(dir)) !== undefined) {
+      return path.join(dir, 'package.json');
+    }
+
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+function resolvePaths(config: MigrationShellConfig, filePath: string): MigrationShellConfig {
+  const resolve = (value?: string) => value ? path.resolve(path.dirname(filePath), value) : value;
+  const profiles = config.profiles && Object.fromEntries(
+    Object.entries(config.profiles).map(([name, profile]) => [name, { ...profile, dataSource: resolve(profile.dataSource) }])
+  );
+
+  const adapters = config.adapters && Object.fromEntries(
+    Object.entries(config.adapters).map(([name, adapter]) => [
+      name,
+      typeof adapter === 'string' && adapter.startsWith('.') ? resolve(adapter)! : adapter
+    ])
+  );
+
+  return {
+    ...config,
+    migrationsDir: resolve(config.migrationsDir),
+    historyFile: resolve(config.historyFile),
+    checksumFile: resolve(config.checksumFile),
+    metadataCacheFile: resolve(config.metadataCacheFile),
+    lockFile: resolve(config.lockFile),
+    dataSource: resolve(config.dataSource),
+    adapters,
+    profiles
+  };
+}
+
+export async function loadConfig(options: { cwd?: string; configPath?: string } = {}): Promise<LoadedConfig | null> {
+  const filePath = options.configPath
+    ? path.resolve(options.cwd || process.cwd(), options.configPath)
+    : await findConfigFile(options.cwd);
+
+  if (!filePath) return null;
+
+  if (!(await exists(filePath))) {
+    throw new ConfigError(`Config file not found: ${filePath}`, filePath);
+  }
+
+  const raw = path.basename(filePath) === 'package.json'
+    ? await readPackageJsonConfig(path.dirname(filePath))
+    : await readConfigFile(filePath);
+
+  const config = validateConfig(raw ?? {}, filePath);
+
+  return { config: resolvePaths(config, filePath), filePath };
+}
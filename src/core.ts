@@ -0,0 +1,1507 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { EventEmitter } from 'events';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_ADAPTER, MigrationAdapter, resolveAdapterFactory } from './adapters';
+import { PerformanceCache } from './cache';
+import { AppliedMigrationRecord } from './datasource';
+import { ChecksumStore, computeChecksum, DEFAULT_CHECKSUM_FILE } from './checksums';
+import { DEFAULT_HISTORY_FILE, RunHistory, truncateOutput } from './history';
+import { gitIntroducedCommand, GitFileInfo, gitStatusCommand, parseGitCommit, parseGitStatus } from './git';
+import { getLintErrors, lintMigration } from './lint';
+import { DEFAULT_LOCK_FILE, FileLock, formatLockHolder, MigrationLock } from './lock';
+import { DEFAULT_METADATA_CACHE_FILE, MetadataCache } from './metadata-cache';
+import { buildStatusReport, StatusReport } from './report';
+import { CommandProcess, FileSystem, nodeFileSystem, ProcessRunner, shellRunner } from './runtime';
+import { diffQueries, extractUpQueries, TableDiff } from './schema-diff';
+import {
+  CommandResult,
+  DatabaseInfo,
+  HistoryOperation,
+  HookContext,
+  HookName,
+  LockHolder,
+  Logger,
+  Migration,
+  MigrationCommands,
+  MigrationEvents,
+  MigrationFailure,
+  MigrationHook,
+  MigrationPlan,
+  MigrationPlanStep,
+  MigrationPreview,
+  MigrationProfile,
+  MigrationRunResult,
+  MigrationShellConfig,
+  PlanStepResult,
+  RunningCommand
+} from './types';
+
+export interface RunOptions {
+  overrideLint?: boolean;
+  // The database name, required to run migrations against a protected profile.
+  confirm?: string;
+}
+
+export interface MigrationRuntime {
+  fs?: FileSystem;
+  runner?: ProcessRunner;
+}
+
+const DEFAULT_COMMANDS: MigrationCommands = {
+  showStatus: 'pnpm run migration:show',
+  migrateUp: 'pnpm run migrate:up',
+  migrateDown: 'pnpm run migrate:down',
+  create: 'pnpm run migration:create {path}',
+  generate: 'pnpm run migration:generate {path}'
+};
+
+const READ_CONCURRENCY = 16;
+const GIT_TIMEOUT = 5000;
+
+async function mapConcurrent<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+export function isMigrationPending(migration: Migration): boolean {
+  return migration.status === 'pending'
+    || (migration.status === 'failed' && migration.failure?.direction === 'up');
+}
+
+export function isMigrationApplied(migration: Migration): boolean {
+  return migration.status === 'applied'
+    || migration.status === 'modified'
+    || (migration.status === 'failed' && migration.failure?.direction === 'down');
+}
+
+// Orders applied migrations the way a sequential revert undoes them: last executed first. The
+// execution order is the migrations table id when the status source provides one.
+function byLastExecuted(a: Migration, b: Migration): number {
+  return a.id !== undefined && b.id !== undefined ? b.id - a.id : b.timestamp - a.timestamp;
+}
+
+export interface MigrationCore {
+  on<E extends keyof MigrationEvents>(event: E, listener: (...args: MigrationEvents[E]) => void): this;
+  once<E extends keyof MigrationEvents>(event: E, listener: (...args: MigrationEvents[E]) => void): this;
+  off<E extends keyof MigrationEvents>(event: E, listener: (...args: MigrationEvents[E]) => void): this;
+  emit<E extends keyof MigrationEvents>(event: E, ...args: MigrationEvents[E]): boolean;
+}
+
+export class MigrationCore extends EventEmitter {
+  readonly config: MigrationShellConfig;
+  readonly migrationsDir: string;
+  readonly commands: MigrationCommands;
+  readonly cache = new PerformanceCache();
+  readonly dbInfo: DatabaseInfo;
+  readonly history: RunHistory;
+  readonly checksums: ChecksumStore;
+  private readonly metadataCache: MetadataCache;
+  private readonly fs: FileSystem;
+  private readonly runner: ProcessRunner;
+
+  private log: Logger;
+  private profileName: string | null = null;
+  private env: Record<string, string> = {};
+  private adapterPromise: Promise<MigrationAdapter> | null = null;
+  private failures = new Map<string, MigrationFailure>();
+  private runCommands: string[] | null = null;
+  private fileMigrations = new Map<string, Migration>();
+  private filesLoaded = false;
+  private appliedRecords: AppliedMigrationRecord[] | null = null;
+  private statusFetchedAt = 0;
+  private statusChecks = new Set<AbortController>();
+  private statusSignal = new AsyncLocalStorage<AbortSignal>();
+  private running: (RunningCommand & { child: CommandProcess; killTimer?: NodeJS.Timeout }) | null = null;
+  private heldLock: LockHolder | null = null;
+  private migrationStatuses = '';
+  private statusSnapshot = '';
+  private outOfOrder = '';
+
+  constructor(config: MigrationShellConfig = {}, log: Logger = () => {}, runtime: MigrationRuntime = {}) {
+    super();
+    this.config = config;
+    this.log = log;
+    this.fs = runtime.fs ?? nodeFileSystem;
+    this.runner = runtime.runner ?? shellRunner;
+    this.migrationsDir = path.resolve(config.migrationsDir || path.join(process.cwd(), 'migrations'));
+    this.commands = { ...DEFAULT_COMMANDS };
+    this.history = new RunHistory(path.resolve(config.historyFile || DEFAULT_HISTORY_FILE), this.fs, this.runner);
+    this.checksums = new ChecksumStore(path.resolve(config.checksumFile || DEFAULT_CHECKSUM_FILE), this.fs);
+    this.metadataCache = new MetadataCache(
+      path.resolve(config.metadataCacheFile || DEFAULT_METADATA_CACHE_FILE),
+      JSON.stringify(config.lint ?? {}),
+      this.fs
+    );
+    this.dbInfo = {
+      host: 'localhost',
+      database: 'eternal_app',
+      connected: false,
+      migrationsCount: 0,
+      pendingCount: 0,
+      lastCheck: 0
+    };
+
+    this.useProfile(config.defaultProfile ?? null);
+  }
+
+  setLogger(log: Logger): void {
+    this.log = log;
+  }
+
+  get activeProfile(): string | null {
+    return this.profileName;
+  }
+
+  get profile(): MigrationProfile | null {
+    return this.profileName ? this.config.profiles?.[this.profileName] ?? null : null;
+  }
+
+  getProfileNames(): string[] {
+    return Object.keys(this.config.profiles ?? {});
+  }
+
+  isProtected(): boolean {
+    return this.profile?.protected === true;
+  }
+
+  // Only a configured name counts: the reported one falls back to a placeholder when none is set, and
+  // operators would be asked to confirm a database that is not theirs.
+  getConfirmationName(): string | null {
+    return this.profile?.database?.name || this.config.database?.name || null;
+  }
+
+  useProfile(name: string | null): void {
+    if (name !== null && !this.config.profiles?.[name]) {
+      const available = this.getProfileNames();
+      throw new Error(`Unknown profile "${name}"${available.length ? `. Available: ${available.join(', ')}` : ''}`);
+    }
+
+    this.profileName = name;
+    const profile = this.profile;
+
+    for (const key of Object.keys(DEFAULT_COMMANDS) as Array<keyof MigrationCommands>) {
+      this.commands[key] = profile?.commands?.[key] || this.config.commands?.[key] || DEFAULT_COMMANDS[key];
+    }
+    this.dbInfo.host = profile?.database?.host || this.config.database?.host || 'localhost';
+    this.dbInfo.database = profile?.database?.name || this.config.database?.name || 'eternal_app';
+    this.dbInfo.connected = false;
+    this.dbInfo.lastCheck = 0;
+    this.env = { ...profile?.env };
+    this.cache.clear();
+    this.fileMigrations.clear();
+    this.filesLoaded = false;
+    this.appliedRecords = null;
+    this.statusFetchedAt = 0;
+
+    const previousAdapter = this.adapterPromise;
+    this.adapterPromise = null;
+    previousAdapter?.then(adapter => adapter.dispose?.()).catch(() => {});
+  }
+
+  get adapterName(): string {
+    return this.profile?.adapter || this.config.adapter || DEFAULT_ADAPTER;
+  }
+
+  getAdapter(): Promise<MigrationAdapter> {
+    if (!this.adapterPromise) {
+      const promise = resolveAdapterFactory(this.adapterName, this.config).then(factory => factory({
+        migrationsDir: this.migrationsDir,
+        commands: this.commands,
+        config: this.config,
+        profile: this.profile,
+        env: this.env,
+        fs: this.fs,
+        dataSource: this.profile?.dataSource || this.config.dataSource,
+        log: (message, type) => this.log(message, type),
+        runCommand: (command, description) => this.executeCommand(command, description),
+        readCommand: (command, timeout) => this.readCommand(command, timeout)
+      }));
+
+      promise.catch(() => {
+        if (this.adapterPromise === promise) {
+          this.adapterPromise = null;
+        }
+      });
+      this.adapterPromise = promise;
+    }
+
+    return this.adapterPromise;
+  }
+
+  async dispose(): Promise<void> {
+    const adapter = await this.adapterPromise?.catch(() => null);
+    await adapter?.dispose?.();
+  }
+
+  private get processEnv(): NodeJS.ProcessEnv {
+    return { ...process.env, ...this.env };
+  }
+
+  async loadMigrations(): Promise<Migration[]> {
+    const cacheKey = 'migrations';
+    const cached = this.cache.get<Migration[]>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    this.log('Loading migrations...', 'info');
+
+    try {
+      await this.fs.access(this.migrationsDir);
+    } catch {
+      await this.fs.mkdir(this.migrationsDir, { recursive: true });
+    }
+
+    const adapter = await this.getAdapter();
+    const files = await this.fs.readdir(this.migrationsDir);
+
+    const migrationFiles = files.filter(file => adapter.isMigrationFile(file));
+    const read = await mapConcurrent(migrationFiles, READ_CONCURRENCY, file => this.readMigrationFile(adapter, file));
+
+    this.fileMigrations = new Map(read.map(migration => [migration.name, migration]));
+    this.filesLoaded = true;
+    await this.saveMetadataCache();
+
+    await this.fetchAppliedMigrations(adapter);
+    const migrations = await this.buildMigrations();
+
+    this.log(`Loaded ${migrations.length} migrations`, 'success');
+
+    return migrations;
+  }
+
+  // Re-reads only the given files (added, changed or deleted migrations and down files) and rebuilds
+  // the list against the last known status instead of rescanning the whole directory.
+  async updateMigrationFiles(changed: string[]): Promise<Migration[]> {
+    if (!this.filesLoaded) {
+      this.cache.invalidate('migrations');
+      return this.loadMigrations();
+    }
+
+    const adapter = await this.getAdapter();
+    const affected = new Set<string>();
+
+    for (const file of changed) {
+      if (adapter.isMigrationFile(file)) {
+        affected.add(file);
+      }
+      for (const name of this.fileMigrations.keys()) {
+        if (adapter.getDownFile?.(name) === file) affected.add(name);
+      }
+    }
+
+    await mapConcurrent([...affected], READ_CONCURRENCY, async file => {
+      this.cache.invalidate(`git:${file}`);
+      try {
+        this.fileMigrations.set(file, await this.readMigrationFile(adapter, file));
+      } catch {
+        this.fileMigrations.delete(file);
+      }
+    });
+    await this.saveMetadataCache();
+
+    return this.buildMigrations();
+  }
+
+  async refreshStatus(): Promise<Migration[]> {
+    if (!this.filesLoaded) {
+      this.cache.invalidate('migrations');
+      return this.loadMigrations();
+    }
+
+    await this.fetchAppliedMigrations(await this.getAdapter());
+    return this.buildMigrations();
+  }
+
+  private async readMigrationFile(adapter: MigrationAdapter, file: string): Promise<Migration> {
+    const filePath = path.join(this.migrationsDir, file);
+    const stats = await this.fs.stat(filePath);
+
+    const timestampMatch = file.match(/^(\d+)/);
+    const timestamp = timestampMatch ? parseInt(timestampMatch[1]) : stats.birthtimeMs;
+
+    const downFile = adapter.getDownFile?.(file);
+    const downPath = downFile ? path.join(this.migrationsDir, downFile) : null;
+    const downStats = downPath ? await this.fs.stat(downPath).catch(() => null) : undefined;
+    const key = MetadataCache.fileKey(stats, downStats);
+
+    let metadata = await this.metadataCache.get(filePath, key);
+
+    if (!metadata) {
+      const content = await this.fs.readFile(filePath, 'utf-8');
+      const downContent = downPath
+        ? await this.fs.readFile(downPath, 'utf-8').catch(() => null)
+        : undefined;
+
+      metadata = {
+        key,
+        className: content.match(/export\s+class\s+(\w+)/)?.[1],
+        description: this.extractDescription(content),
+        hash: computeChecksum(content),
+        lint: lintMigration({ content, downContent, sql: file.endsWith('.sql') }, this.config.lint)
+      };
+      await this.metadataCache.set(filePath, metadata);
+    }
+
+    return {
+      name: file,
+      className: metadata.className,
+      timestamp,
+      status: 'pending',
+      description: metadata.description,
+      size: this.formatFileSize(stats.size),
+      hash: metadata.hash,
+      lint: metadata.lint
+    };
+  }
+
+  private async saveMetadataCache(): Promise<void> {
+    try {
+      await this.metadataCache.retain([...this.fileMigrations.keys()].map(file => path.join(this.migrationsDir, file)));
+      await this.metadataCache.save();
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log(`Could not write metadata cache to ${this.metadataCache.filePath}: ${errorMessage}`, 'warning');
+    }
+  }
+
+  private async fetchAppliedMigrations(adapter: MigrationAdapter): Promise<void> {
+    try {
+      this.appliedRecords = await this.trackStatusCheck(() => adapter.getAppliedMigrations());
+      this.updateConnectionInfo(adapter);
+      this.dbInfo.connected = true;
+    } catch (error: unknown) {
+      this.appliedRecords = null;
+      this.dbInfo.connected = false;
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log(`Could not fetch migration status: ${errorMessage}`, 'warning');
+    }
+    this.statusFetchedAt = Date.now();
+  }
+
+  private async buildMigrations(): Promise<Migration[]> {
+    const adapter = await this.getAdapter();
+    const migrations = [...this.fileMigrations.values()].map(migration => ({ ...migration }));
+
+    if (this.appliedRecords) {
+      migrations.push(...this.matchAppliedMigrations(adapter, migrations, this.appliedRecords));
+      this.applyFailures(migrations);
+      await this.applyChecksums(migrations);
+    }
+
+    migrations.sort((a, b) => a.timestamp - b.timestamp);
+
+    if (this.appliedRecords) {
+      this.flagOutOfOrder(migrations);
+    }
+
+    this.dbInfo.migrationsCount = migrations.length;
+    this.dbInfo.pendingCount = migrations.filter(m => isMigrationPending(m)).length;
+    this.dbInfo.lastCheck = Date.now();
+
+    this.cache.set('migrations', migrations, 60000);
+    this.migrationStatuses = migrations.map(m => `${m.name}:${m.status}`).join('\n');
+    this.emit('migrationsLoaded', migrations);
+    this.emitStatusChanged();
+
+    return migrations;
+  }
+
+  // TypeORM runs every pending migration regardless of order, so a file older than the newest applied
+  // one (typically from a merged long-lived branch) would run after migrations it predates.
+  private flagOutOfOrder(migrations: Migration[]): void {
+    const latest = migrations
+      .filter(m => isMigrationApplied(m) || m.status === 'orphaned')
+      .reduce<Migration | null>((max, m) => (!max || m.timestamp > max.timestamp ? m : max), null);
+    const outOfOrder = latest ? migrations.filter(m => isMigrationPending(m) && m.timestamp < latest.timestamp) : [];
+
+    for (const migration of outOfOrder) {
+      const warning = `Older than the latest applied migration ${latest!.name}; it would run out of order`;
+      migration.warnings = [...(migration.warnings ?? []), warning];
+    }
+
+    const names = outOfOrder.map(m => m.name).join(', ');
+    if (names && names !== this.outOfOrder) {
+      this.log(`${outOfOrder.length} pending migration(s) older than the latest applied ${latest!.name}: ${names}`, 'warning');
+    }
+    this.outOfOrder = names;
+  }
+
+  private emitStatusChanged(): void {
+    const { host, database, connected, migrationsCount, pendingCount } = this.dbInfo;
+    const snapshot = JSON.stringify([host, database, connected, migrationsCount, pendingCount, this.migrationStatuses]);
+    if (snapshot === this.statusSnapshot) return;
+
+    this.statusSnapshot = snapshot;
+    this.emit('statusChanged', { ...this.dbInfo });
+  }
+
+  private matchAppliedMigrations(
+    adapter: MigrationAdapter,
+    migrations: Migration[],
+    applied: AppliedMigrationRecord[]
+  ): Migration[] {
+    const orphaned: Migration[] = [];
+
+    for (const record of applied) {
+      let matches = migrations.filter(migration => adapter.isApplied(migration, [record]));
+
+      if (matches.length > 1) {
+        const exact = matches.filter(m => m.className === record.name || m.name.replace(/\.[^.]+$/, '') === record.name);
+        if (exact.length === 1) {
+          matches = exact;
+        } else {
+          const warning = `Applied migration ${record.name} matches ${matches.length} files: ${matches.map(m => m.name).join(', ')}`;
+          this.log(warning, 'warning');
+          matches.forEach(m => m.warnings = [...(m.warnings ?? []), warning]);
+        }
+      }
+
+      if (matches.length === 0) {
+        orphaned.push({
+          id: record.id,
+          name: record.name,
+          timestamp: Number.isFinite(record.timestamp) ? record.timestamp : 0,
+          status: 'orphaned',
+          description: 'Applied in the database, but no migration file was found'
+        });
+      }
+
+      matches.forEach(m => {
+        m.status = 'applied';
+        m.id = record.id;
+      });
+    }
+
+    if (orphaned.length > 0) {
+      this.log(`${orphaned.length} applied migration(s) have no file: ${orphaned.map(m => m.name).join(', ')}`, 'warning');
+    }
+
+    return orphaned;
+  }
+
+  private updateConnectionInfo(adapter: MigrationAdapter): void {
+    const info = adapter.getConnectionInfo?.();
+    const overrides = { ...this.config.database, ...this.profile?.database };
+
+    if (info) {
+      this.dbInfo.host = overrides.host || info.host;
+      this.dbInfo.database = overrides.name || info.database;
+    }
+  }
+
+  getMigrationPath(migration: Migration): string {
+    return path.join(this.migrationsDir, migration.name);
+  }
+
+  async getDownMigrationPath(migration: Migration): Promise<string | null> {
+    const adapter = await this.getAdapter();
+    const downFile = adapter.getDownFile?.(migration.name);
+    return downFile ? path.join(this.migrationsDir, downFile) : null;
+  }
+
+  async readMigrationSource(migration: Migration): Promise<{ content: string; downPath: string | null; downContent: string | null }> {
+    const content = await this.fs.readFile(this.getMigrationPath(migration), 'utf-8');
+    const downPath = await this.getDownMigrationPath(migration);
+    const downContent = downPath ? await this.fs.readFile(downPath, 'utf-8').catch(() => null) : null;
+    return { content, downPath, downContent };
+  }
+
+  // Resolves to null when the migrations directory is not in a git work tree (or git is missing).
+  getGitInfo(migration: Migration): Promise<GitFileInfo | null> {
+    const cacheKey = `git:${migration.name}`;
+    const cached = this.cache.get<Promise<GitFileInfo | null>>(cacheKey);
+    if (cached) return cached;
+
+    const read = (command: string) => this.runner.read(command, { env: this.processEnv, timeout: GIT_TIMEOUT });
+    const info = Promise.all([
+      read(gitStatusCommand(this.migrationsDir, migration.name)),
+      read(gitIntroducedCommand(this.migrationsDir, migration.name))
+    ]).then(
+      ([status, log]): GitFileInfo => ({ status: parseGitStatus(status), introducedBy: parseGitCommit(log) }),
+      () => null
+    );
+
+    this.cache.set(cacheKey, info, 30000);
+    return info;
+  }
+
+  getStatusOutput(timeout?: number): Promise<string> {
+    return this.trackStatusCheck(() => this.readCommand(this.commands.showStatus, timeout));
+  }
+
+  get statusTimeout(): number {
+    return this.config.statusTimeout ?? 10000;
+  }
+
+  get isCheckingStatus(): boolean {
+    return this.statusChecks.size > 0;
+  }
+
+  cancelStatusCheck(): boolean {
+    if (this.statusChecks.size === 0) return false;
+
+    for (const controller of this.statusChecks) {
+      controller.abort(new Error('Status check cancelled'));
+    }
+    return true;
+  }
+
+  // Status queries can hang on an unreachable database: bound them by statusTimeout and let
+  // cancelStatusCheck abort them (including the commands they spawn) from the UI.
+  private async trackStatusCheck<T>(run: () => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    const timeout = this.statusTimeout;
+    const timer = setTimeout(
+      () => controller.abort(new Error(`Status check timed out after ${Math.round(timeout / 1000)}s`)),
+      timeout
+    );
+
+    this.statusChecks.add(controller);
+
+    try {
+      return await new Promise<T>((resolve, reject) => {
+        controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+        this.statusSignal.run(controller.signal, run).then(resolve, reject);
+      });
+    } finally {
+      clearTimeout(timer);
+      this.statusChecks.delete(controller);
+    }
+  }
+
+  private readCommand(command: string, timeout: number = this.statusTimeout): Promise<string> {
+    return this.runner.read(command, { env: this.processEnv, timeout, signal: this.statusSignal.getStore() });
+  }
+
+  // Reuses the outcome of the status query made by loadMigrations when it is recent enough, so a
+  // refresh runs the status command once.
+  async checkConnection(maxAgeMs: number = 0): Promise<boolean> {
+    if (Date.now() - this.statusFetchedAt < maxAgeMs) {
+      return this.dbInfo.connected;
+    }
+
+    try {
+      const adapter = await this.getAdapter();
+      this.dbInfo.connected = await this.trackStatusCheck(() => adapter.checkConnection());
+      this.updateConnectionInfo(adapter);
+    } catch {
+      this.dbInfo.connected = false;
+    }
+
+    this.emitStatusChanged();
+    return this.dbInfo.connected;
+  }
+
+  private failureKey(name: string): string {
+    return `${this.profileName ?? ''}:${name}`;
+  }
+
+  private async applyChecksums(migrations: Migration[]): Promise<void> {
+    const scope = this.profileName ?? 'default';
+    let records;
+
+    try {
+      records = await this.checksums.read(scope);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log(errorMessage, 'warning');
+      return;
+    }
+
+    for (const migration of migrations) {
+      const record = records[migration.name];
+      if (!record || !isMigrationApplied(migration)) continue;
+
+      migration.appliedHash = record.hash;
+      if (migration.status === 'applied' && record.hash !== migration.hash) {
+        migration.status = 'modified';
+      }
+    }
+
+    const modified = migrations.filter(m => m.status === 'modified');
+    if (modified.length > 0) {
+      this.log(`${modified.length} applied migration(s) changed since they were applied: ${modified.map(m => m.name).join(', ')}`, 'warning');
+    }
+  }
+
+  // Checksums are recorded only by the run that applies a migration, never by a status check, so a
+  // file edited before this machine first saw it applied is not taken as the baseline. A revert
+  // forgets the checksum.
+  private async recordChecksums(changed: string[], after: Map<string, boolean>): Promise<void> {
+    const set: Record<string, string> = {};
+    const remove: string[] = [];
+
+    for (const name of changed) {
+      // Unknown after the run (e.g. the status check failed): leave the record alone.
+      if (!after.has(name)) continue;
+
+      const hash = this.fileMigrations.get(name)?.hash;
+      if (!after.get(name)) {
+        remove.push(name);
+      } else if (hash) {
+        set[name] = hash;
+      }
+    }
+
+    if (Object.keys(set).length === 0 && remove.length === 0) return;
+
+    try {
+      await this.checksums.update(this.profileName ?? 'default', { set, remove });
+      this.cache.invalidate('migrations');
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log(`Could not record checksums in ${this.checksums.filePath}: ${errorMessage}`, 'warning');
+    }
+  }
+
+  private applyFailures(migrations: Migration[]): void {
+    for (const migration of migrations) {
+      const key = this.failureKey(migration.name);
+      const failure = this.failures.get(key);
+      if (!failure) continue;
+
+      const resolved = failure.direction === 'up'
+        ? migration.status === 'applied'
+        : migration.status === 'pending';
+
+      if (resolved) {
+        this.failures.delete(key);
+      } else {
+        migration.status = 'failed';
+        migration.failure = failure;
+      }
+    }
+  }
+
+  private async recordFailure(
+    direction: 'up' | 'down',
+    result: CommandResult,
+    candidates: Migration[],
+    known?: Migration
+  ): Promise<void> {
+    const output = `${result.stderr}\n${result.stdout}`;
+    const mentions = (migration: Migration) =>
+      (!!migration.className && output.includes(migration.className))
+      || output.includes(migration.name.replace(/\.[^.]+$/, ''));
+
+    let failed = known ?? candidates.find(mentions);
+
+    this.cache.invalidate('migrations');
+
+    if (!failed && candidates.length > 0) {
+      const after = await this.loadMigrations();
+      const stillThere = (migration: Migration) => {
+        const current = after.find(m => m.name === migration.name);
+        return !!current && (direction === 'up' ? isMigrationPending(current) : isMigrationApplied(current));
+      };
+      failed = candidates.find(stillThere);
+    }
+
+    if (!failed) {
+      this.log('Could not determine which migration failed', 'warning');
+      return;
+    }
+
+    const failure: MigrationFailure = {
+      direction,
+      exitCode: result.code,
+      stderr: (result.stderr || result.stdout).trim(),
+      failedAt: Date.now()
+    };
+    this.failures.set(this.failureKey(failed.name), failure);
+    this.cache.invalidate('migrations');
+    this.log(`Marked ${failed.name} as failed`, 'error');
+    this.emit('migrationFailed', { ...failed, status: 'failed', failure }, failure);
+  }
+
+  private async getCandidates(direction: 'up' | 'down'): Promise<Migration[]> {
+    try {
+      const migrations = await this.loadMigrations();
+      return direction === 'up'
+        ? migrations.filter(isMigrationPending)
+        : migrations.filter(isMigrationApplied).reverse();
+    } catch {
+      return [];
+    }
+  }
+
+  // The state before a run reuses the migrations already loaded to pick its candidates or plan, so
+  // only the state after it costs another status query.
+  private async captureState(fresh: boolean): Promise<Map<string, boolean>> {
+    if (fresh) this.cache.invalidate('migrations');
+
+    try {
+      const migrations = await this.loadMigrations();
+      return new Map(migrations.map(m => [m.name, isMigrationApplied(m)]));
+    } catch {
+      return new Map();
+    }
+  }
+
+  private async recordRun(
+    operation: HistoryOperation,
+    description: string,
+    run: () => Promise<CommandResult>
+  ): Promise<MigrationRunResult> {
+    const before = await this.captureState(false);
+    const startedAt = Date.now();
+    const commands: string[] = [];
+
+    this.runCommands = commands;
+    let result: CommandResult;
+    try {
+      result = await run();
+    } finally {
+      this.runCommands = null;
+    }
+
+    const durationMs = Date.now() - startedAt;
+    const after = await this.captureState(true);
+    const migrations = [...new Set([...before.keys(), ...after.keys()])]
+      .filter(name => before.get(name) !== after.get(name))
+      .sort();
+
+    await this.recordChecksums(migrations, after);
+
+    try {
+      await this.history.append({
+        id: `${startedAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+        operation,
+        description,
+        profile: this.profileName,
+        host: this.dbInfo.host,
+        database: this.dbInfo.database,
+        ...(await this.history.getUser()),
+        commands,
+        startedAt: new Date(startedAt).toISOString(),
+        durationMs,
+        exitCode: result.code,
+        success: result.success,
+        ...(result.cancelled && { cancelled: true }),
+        migrations,
+        output: truncateOutput([result.stdout.trim(), result.stderr.trim()].filter(Boolean).join('\n'))
+      });
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log(`Could not write run history to ${this.history.filePath}: ${errorMessage}`, 'warning');
+    }
+
+    return { ...result, migrations };
+  }
+
+  private checkConfirmation(options: RunOptions): CommandResult | null {
+    if (!this.isProtected()) return null;
+
+    const expected = this.getConfirmationName();
+    let message: string | null = null;
+
+    if (!expected) {
+      message = `Profile "${this.profileName}" is protected but has no database name configured; set "database.name" to run migrations against it`;
+    } else if (options.confirm !== expected) {
+      message = `Profile "${this.profileName}" is protected; confirm with the database name "${expected}" to run migrations`;
+    }
+
+    if (!message) return null;
+    this.log(message, 'error');
+    return { success: false, code: null, stdout: '', stderr: message };
+  }
+
+  private checkLint(migrations: Migration[], options: RunOptions): CommandResult | null {
+    const blocking = migrations.filter(migration => getLintErrors(migration.lint).length > 0);
+    if (blocking.length === 0) return null;
+
+    const details = blocking.map(migration =>
+      `${migration.name}: ${getLintErrors(migration.lint).map(finding => `${finding.rule} (${finding.message})`).join(', ')}`
+    );
+
+    if (options.overrideLint) {
+      this.log(`Overriding lint errors in ${blocking.map(m => m.name).join(', ')}`, 'warning');
+      return null;
+    }
+
+    const message = `Blocked by lint errors:\n${details.join('\n')}`;
+    this.log(message, 'error');
+    return { success: false, code: null, stdout: '', stderr: message };
+  }
+
+  async migrateUp(options: RunOptions = {}): Promise<MigrationRunResult> {
+    const unconfirmed = this.checkConfirmation(options);
+    if (unconfirmed) return { ...unconfirmed, migrations: [] };
+
+    const candidates = await this.getCandidates('up');
+    const blocked = this.checkLint(candidates, options);
+    if (blocked) return { ...blocked, migrations: [] };
+
+    return this.withLock('Applying migrations', async () => {
+      const names = candidates.map(m => m.name);
+      const failed = await this.runHook('beforeUp', names);
+      if (failed) return { ...failed, migrations: [] };
+
+      const result = await this.runUp();
+      await this.runHook(result.success ? 'afterUp' : 'onFailure', names, result);
+      return result;
+    }, result => ({ ...result, migrations: [] }));
+  }
+
+  async migrateDown(options: RunOptions = {}): Promise<MigrationRunResult> {
+    const unconfirmed = this.checkConfirmation(options);
+    if (unconfirmed) return { ...unconfirmed, migrations: [] };
+
+    return this.withLock('Reverting migration', async () => {
+      const names = (await this.getCandidates('down')).slice(0, 1).map(m => m.name);
+      const failed = await this.runHook('beforeDown', names);
+      if (failed) return { ...failed, migrations: [] };
+
+      const result = await this.runDown();
+      await this.runHook(result.success ? 'afterDown' : 'onFailure', names, result);
+      return result;
+    }, result => ({ ...result, migrations: [] }));
+  }
+
+  private getHook(name: HookName): MigrationHook | undefined {
+    return this.profile?.hooks?.[name] ?? this.config.hooks?.[name];
+  }
+
+  // Returns a failed result when a before* hook fails so the run can be aborted; failures of the
+  // other hooks are only logged since the migrations have already run by then.
+  private async runHook(name: HookName, migrations: string[], result?: CommandResult): Promise<CommandResult | null> {
+    const hook = this.getHook(name);
+    if (!hook) return null;
+
+    const aborts = name.startsWith('before');
+    const context: HookContext = {
+      hook: name,
+      profile: this.profileName,
+      host: this.dbInfo.host,
+      database: this.dbInfo.database,
+      migrations,
+      ...(result && { result })
+    };
+
+    let failure: CommandResult | null = null;
+
+    if (typeof hook === 'string') {
+      const hookResult = await this.executeCommand(hook, `Running ${name} hook`, {
+        MIGRATION_HOOK: name,
+        MIGRATION_PROFILE: this.profileName ?? '',
+        MIGRATION_HOST: this.dbInfo.host,
+        MIGRATION_DATABASE: this.dbInfo.database,
+        MIGRATION_NAMES: migrations.join(' '),
+        MIGRATION_EXIT_CODE: result ? String(result.code ?? '') : ''
+      });
+      failure = hookResult.success ? null : hookResult;
+    } else {
+      try {
+        await hook(context);
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        failure = { success: false, code: null, stdout: '', stderr: errorMessage };
+      }
+    }
+
+    if (!failure) return null;
+
+    const message = `${name} hook failed${aborts ? ', nothing was migrated' : ''}: ${(failure.stderr || failure.stdout).trim() || `exit code ${failure.code}`}`;
+    this.log(message, aborts ? 'error' : 'warning');
+    return aborts ? { ...failure, stderr: message } : null;
+  }
+
+  private runUp(): Promise<MigrationRunResult> {
+    return this.recordRun('up', 'Applying migrations', async () => {
+      const candidates = await this.getCandidates('up');
+      const result = await this.runAdapterOperation('Applying migrations', adapter => adapter.up());
+
+      if (!result.success) {
+        await this.recordFailure('up', result, candidates);
+      }
+
+      return result;
+    });
+  }
+
+  private runDown(): Promise<MigrationRunResult> {
+    return this.recordRun('down', 'Reverting migration', async () => {
+      const candidates = await this.getCandidates('down');
+      const result = await this.runAdapterOperation('Reverting migration', adapter => adapter.down());
+
+      if (!result.success) {
+        await this.recordFailure('down', result, candidates.slice(0, 1));
+      }
+
+      return result;
+    });
+  }
+
+  private async getLock(): Promise<MigrationLock> {
+    const adapter = await this.getAdapter();
+    const lock = await adapter.getLock?.();
+    if (lock) return lock;
+
+    const lockFile = path.resolve(this.config.lockFile || DEFAULT_LOCK_FILE);
+    const { dir, name, ext } = path.parse(lockFile);
+    return new FileLock(this.profileName ? path.join(dir, `${name}.${this.profileName}${ext}`) : lockFile, this.fs);
+  }
+
+  async getLockHolder(): Promise<LockHolder | null> {
+    if (this.heldLock) return this.heldLock;
+    return (await this.getLock()).read();
+  }
+
+  async forceUnlock(): Promise<LockHolder | null> {
+    const lock = await this.getLock();
+    const holder = await lock.read();
+    await lock.forceRelease();
+    this.log(holder ? `Force-unlocked migrations held by ${formatLockHolder(holder)}` : 'Migrations were not locked', 'warning');
+    return holder;
+  }
+
+  private async withLock<T>(operation: string, run: () => Promise<T>, locked: (result: CommandResult) => T): Promise<T> {
+    const user = await this.history.getUser();
+    const holder: LockHolder = {
+      user: user.gitUser ?? user.user,
+      host: os.hostname(),
+      pid: process.pid,
+      profile: this.profileName,
+      operation,
+      acquiredAt: new Date().toISOString()
+    };
+
+    let lock: MigrationLock;
+    let current: LockHolder | null;
+
+    try {
+      lock = await this.getLock();
+      current = await lock.acquire(holder);
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const message = `Could not take the migration lock: ${errorMessage}`;
+      this.log(message, 'error');
+      return locked({ success: false, code: null, stdout: '', stderr: message });
+    }
+
+    if (current) {
+      const message = `Migrations are locked by ${formatLockHolder(current)}`;
+      this.log(message, 'error');
+      return locked({ success: false, code: null, stdout: '', stderr: message });
+    }
+
+    this.heldLock = holder;
+
+    try {
+      return await run();
+    } finally {
+      this.heldLock = null;
+      await lock.release(holder).catch((error: Error) =>
+        this.log(`Could not release the migration lock (${lock.kind}): ${error.message}`, 'warning')
+      );
+    }
+  }
+
+  private async loadStatus(): Promise<{ adapter: MigrationAdapter; migrations: Migration[] }> {
+    const adapter = await this.getAdapter();
+    this.cache.invalidate('migrations');
+    const migrations = await this.loadMigrations();
+
+    if (!this.dbInfo.connected) {
+      throw new Error('Cannot plan migrations: database status is unavailable');
+    }
+
+    return { adapter, migrations };
+  }
+
+  private async loadPlanningState(target: Migration): Promise<{
+    adapter: MigrationAdapter;
+    migrations: Migration[];
+    current: Migration;
+  }> {
+    const { adapter, migrations } = await this.loadStatus();
+    const current = migrations.find(m => m.name === target.name);
+    if (!current) {
+      throw new Error(`Migration ${target.name} not found`);
+    }
+    if (current.status === 'orphaned') {
+      throw new Error(`${current.name} has no migration file`);
+    }
+
+    return { adapter, migrations, current };
+  }
+
+  async planApply(target: Migration): Promise<MigrationPlan> {
+    const { adapter, migrations, current } = await this.loadPlanningState(target);
+
+    if (isMigrationApplied(current)) {
+      throw new Error(`${current.name} is already applied`);
+    }
+
+    if (adapter.applyOne) {
+      return { target: current, steps: [{ migration: current, direction: 'up' }], strategy: 'single' };
+    }
+
+    const pending = migrations.filter(isMigrationPending);
+    this.assertBatchApply(adapter, pending, current);
+
+    return {
+      target: current,
+      steps: pending.map(migration => ({ migration, direction: 'up' })),
+      strategy: 'all'
+    };
+  }
+
+  async planRevert(target: Migration): Promise<MigrationPlan> {
+    const { adapter, migrations, current } = await this.loadPlanningState(target);
+
+    if (!isMigrationApplied(current)) {
+      throw new Error(`${current.name} is not applied`);
+    }
+
+    if (adapter.revertOne) {
+      return { target: current, steps: [{ migration: current, direction: 'down' }], strategy: 'single' };
+    }
+
+    // Each step reverts whatever ran last, so everything executed after the target goes first.
+    const applied = migrations.filter(isMigrationApplied).sort(byLastExecuted);
+    const steps = applied
+      .slice(0, applied.indexOf(current) + 1)
+      .map(migration => ({ migration, direction: 'down' as const }));
+
+    return { target: current, steps, strategy: 'sequential' };
+  }
+
+  async planMigrateTo(target: Migration): Promise<MigrationPlan> {
+    const { adapter, migrations, current } = await this.loadPlanningState(target);
+
+    const applied = migrations.filter(isMigrationApplied).sort(byLastExecuted);
+    const downs = applied.filter(m => m.timestamp > current.timestamp);
+    const ups = migrations.filter(m => isMigrationPending(m) && m.timestamp <= current.timestamp);
+
+    if (!adapter.applyOne && ups.length > 0) {
+      if (downs.length > 0) {
+        throw new Error(
+          `The "${adapter.name}" adapter cannot apply individual migrations, so it cannot both revert ` +
+          `${downs.map(m => m.name).join(', ')} and apply ${ups.map(m => m.name).join(', ')}`
+        );
+      }
+      this.assertBatchApply(adapter, migrations.filter(isMigrationPending), current);
+    }
+
+    if (!adapter.revertOne && downs.some((migration, index) => applied[index] !== migration)) {
+      const kept = applied.slice(0, downs.length).filter(m => !downs.includes(m));
+      throw new Error(
+        `The "${adapter.name}" adapter reverts migrations in execution order, so reverting ` +
+        `${downs.map(m => m.name).join(', ')} would also revert ${kept.map(m => m.name).join(', ')}, which ran after them`
+      );
+    }
+
+    const steps = [
+      ...downs.map(migration => ({ migration, direction: 'down' as const })),
+      ...ups.map(migration => ({ migration, direction: 'up' as const }))
+    ];
+
+    const strategy = ups.length > 0 && !adapter.applyOne
+      ? 'all'
+      : downs.length > 0 && !adapter.revertOne ? 'sequential' : 'single';
+
+    return { target: current, steps, strategy };
+  }
+
+  async planUp(): Promise<MigrationPlan> {
+    const { migrations } = await this.loadStatus();
+    const pending = migrations.filter(isMigrationPending);
+
+    if (pending.length === 0) {
+      throw new Error('No pending migrations');
+    }
+
+    return {
+      target: pending[pending.length - 1],
+      steps: pending.map(migration => ({ migration, direction: 'up' })),
+      strategy: 'all'
+    };
+  }
+
+  async planDown(): Promise<MigrationPlan> {
+    const { adapter, migrations } = await this.loadStatus();
+    const last = migrations.filter(isMigrationApplied).sort(byLastExecuted)[0];
+
+    if (!last) {
+      throw new Error('No applied migrations');
+    }
+
+    return {
+      target: last,
+      steps: [{ migration: last, direction: 'down' }],
+      strategy: adapter.revertOne ? 'single' : 'sequential'
+    };
+  }
+
+  async previewPlan(plan: MigrationPlan): Promise<MigrationPreview[]> {
+    const adapter = await this.getAdapter();
+    const previews: MigrationPreview[] = [];
+
+    for (const step of plan.steps) {
+      if (!adapter.preview) {
+        previews.push({ ...step, statements: [], error: `The "${adapter.name}" adapter does not support SQL preview` });
+        continue;
+      }
+
+      try {
+        previews.push({ ...step, statements: await adapter.preview(step.migration, step.direction) });
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        previews.push({ ...step, statements: [], error: errorMessage });
+      }
+    }
+
+    return previews;
+  }
+
+  async getSchemaDiff(migration: Migration): Promise<TableDiff[]> {
+    const content = await this.fs.readFile(this.getMigrationPath(migration), 'utf-8');
+    return diffQueries(extractUpQueries(content, migration.name.endsWith('.sql')));
+  }
+
+  async discardMigration(migration: Migration): Promise<void> {
+    if (isMigrationApplied(migration) || migration.status === 'orphaned') {
+      throw new Error(`Cannot discard ${migration.name}: only unapplied migrations can be discarded`);
+    }
+
+    const files = [this.getMigrationPath(migration), await this.getDownMigrationPath(migration)];
+
+    for (const file of files) {
+      if (file) await this.fs.rm(file, { force: true });
+    }
+
+    this.cache.invalidate('migrations');
+    this.log(`Discarded migration ${migration.name}`, 'warning');
+  }
+
+  private assertBatchApply(adapter: MigrationAdapter, pending: Migration[], target: Migration): void {
+    const later = pending.filter(m => m.timestamp > target.timestamp);
+
+    if (later.length > 0) {
+      throw new Error(
+        `The "${adapter.name}" adapter can only apply all pending migrations at once; ` +
+        `migrating to ${target.name} would also apply ${later.map(m => m.name).join(', ')}`
+      );
+    }
+  }
+
+  async executePlan(
+    plan: MigrationPlan,
+    onStep?: (index: number, step: MigrationPlanStep, result?: CommandResult) => void,
+    options: RunOptions = {}
+  ): Promise<PlanStepResult[]> {
+    const adapter = await this.getAdapter();
+
+    const abort = (result: CommandResult): PlanStepResult[] => {
+      onStep?.(0, plan.steps[0], result);
+      return [{ ...plan.steps[0], result }];
+    };
+
+    const unconfirmed = this.checkConfirmation(options);
+    if (unconfirmed) return abort(unconfirmed);
+
+    const ups = plan.steps.filter(step => step.direction === 'up');
+    const blocked = this.checkLint(ups.map(step => step.migration), options);
+    if (blocked) {
+      const step = ups.find(up => getLintErrors(up.migration.lint).length > 0)!;
+      onStep?.(plan.steps.indexOf(step), step, blocked);
+      return [{ ...step, result: blocked }];
+    }
+
+    return this.withLock(`Migrating to ${plan.target.name}`, async () => {
+      const names = (direction: 'up' | 'down') =>
+        plan.steps.filter(step => step.direction === direction).map(step => step.migration.name);
+
+      for (const [hook, direction] of [['beforeDown', 'down'], ['beforeUp', 'up']] as const) {
+        if (names(direction).length === 0) continue;
+        const failed = await this.runHook(hook, names(direction));
+        if (failed) return abort(failed);
+      }
+
+      const results = await this.runPlanSteps(adapter, plan, onStep);
+
+      for (const [hook, direction] of [['afterDown', 'down'], ['afterUp', 'up']] as const) {
+        const steps = results.filter(step => step.direction === direction);
+        if (steps.length > 0 && steps.length === names(direction).length && steps.every(step => step.result.success)) {
+          await this.runHook(hook, names(direction));
+        }
+      }
+
+      const failed = results.find(step => !step.result.success);
+      if (failed) {
+        await this.runHook('onFailure', [failed.migration.name], failed.result);
+      }
+
+      return results;
+    }, abort);
+  }
+
+  private async runPlanSteps(
+    adapter: MigrationAdapter,
+    plan: MigrationPlan,
+    onStep: ((index: number, step: MigrationPlanStep, result?: CommandResult) => void) | undefined
+  ): Promise<PlanStepResult[]> {
+    const results: PlanStepResult[] = [];
+
+    for (let i = 0; i < plan.steps.length; i++) {
+      const step = plan.steps[i];
+      const { migration, direction } = step;
+      onStep?.(i, step);
+
+      if (direction === 'up' && !adapter.applyOne) {
+        const result = await this.runUp();
+        const batch = plan.steps.slice(i).filter(s => s.direction === 'up');
+        batch.forEach((batchStep, offset) => {
+          results.push({ ...batchStep, result });
+          onStep?.(i + offset, batchStep, result);
+        });
+        break;
+      }
+
+      let result: CommandResult = direction === 'down' && !adapter.revertOne
+        ? await this.runDown()
+        : await this.runSingleStep(adapter, step);
+
+      if (direction === 'down' && result.success && !(await this.wasReverted(migration))) {
+        const message = `Expected to revert ${migration.name}, but it is still applied; stopping the plan`;
+        this.log(message, 'error');
+        result = { ...result, success: false, stderr: `${result.stderr}\n${message}`.trim() };
+      }
+
+      results.push({ ...step, result });
+      onStep?.(i, step, result);
+
+      if (!result.success) break;
+    }
+
+    this.cache.invalidate('migrations');
+    return results;
+  }
+
+  private async wasReverted(migration: Migration): Promise<boolean> {
+    this.cache.invalidate('migrations');
+    const current = (await this.loadMigrations()).find(m => m.name === migration.name);
+    return !current || !isMigrationApplied(current);
+  }
+
+  private runSingleStep(adapter: MigrationAdapter, { migration, direction }: MigrationPlanStep): Promise<CommandResult> {
+    const description = `${direction === 'up' ? 'Applying' : 'Reverting'} ${migration.name}`;
+
+    return this.recordRun(direction, description, async () => {
+      const result = await this.runAdapterOperation(description, () =>
+        direction === 'up' ? adapter.applyOne!(migration) : adapter.revertOne!(migration)
+      );
+
+      if (!result.success) {
+        await this.recordFailure(direction, result, [migration], migration);
+      }
+
+      return result;
+    });
+  }
+
+  async createMigration(name: string): Promise<MigrationRunResult> {
+    const description = `Creating migration: ${name}`;
+    return this.recordRun('create', description, () =>
+      this.runAdapterOperation(description, adapter => adapter.create(name))
+    );
+  }
+
+  async generateMigration(name: string): Promise<MigrationRunResult> {
+    const description = `Generating migration: ${name}`;
+    return this.recordRun('generate', description, () =>
+      this.runAdapterOperation(description, adapter => {
+        if (!adapter.generate) {
+          throw new Error(`The "${adapter.name}" adapter does not support generating migrations`);
+        }
+        return adapter.generate(name);
+      })
+    );
+  }
+
+  // Entry points for embedding the manager in other tools; progress is reported through events.
+  async getStatus(): Promise<StatusReport> {
+    this.cache.invalidate('migrations');
+    return buildStatusReport(await this.loadMigrations(), this.dbInfo);
+  }
+
+  up(options: RunOptions = {}): Promise<MigrationRunResult> {
+    return this.migrateUp(options);
+  }
+
+  down(options: RunOptions = {}): Promise<MigrationRunResult> {
+    return this.migrateDown(options);
+  }
+
+  create(name: string): Promise<MigrationRunResult> {
+    return this.createMigration(name);
+  }
+
+  private async runAdapterOperation(
+    description: string,
+    operation: (adapter: MigrationAdapter) => Promise<CommandResult>
+  ): Promise<CommandResult> {
+    try {
+      return await operation(await this.getAdapter());
+    } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log(`${description} failed: ${errorMessage}`, 'error');
+      return { success: false, code: null, stdout: '', stderr: errorMessage };
+    }
+  }
+
+  async executeCommand(command: string, description: string, env: Record<string, string> = {}): Promise<CommandResult> {
+    this.log(`${description}...`, 'info');
+    this.runCommands?.push(command);
+
+    const child = this.runner.spawn(command, { ...this.processEnv, ...env });
+    const running: RunningCommand = { command, description, startedAt: Date.now() };
+    this.running = { ...running, child };
+    this.emit('commandStarted', running);
+
+    let output = '';
+    let errorOutput = '';
+    const partial = { stdout: '', stderr: '' };
+
+    const stream = (name: 'stdout' | 'stderr', data: Buffer | string) => {
+      const lines = (partial[name] + data.toString()).split(/\r?\n/);
+      partial[name] = lines.pop() ?? '';
+      lines.forEach(line => this.emit('commandOutput', line, name, running));
+    };
+
+    child.stdout.on('data', (data) => {
+      output += data.toString();
+      stream('stdout', data);
+    });
+
+    child.stderr.on('data', (data) => {
+      errorOutput += data.toString();
+      stream('stderr', data);
+    });
+
+    return new Promise<CommandResult>((resolve) => {
+      let settled = false;
+      const finish = (result: CommandResult) => {
+        if (settled) return;
+        settled = true;
+
+        if (this.running?.child === child) {
+          clearTimeout(this.running.killTimer);
+          running.cancelRequestedAt = this.running.cancelRequestedAt;
+          this.running = null;
+        }
+        (['stdout', 'stderr'] as const).forEach(name => partial[name] && this.emit('commandOutput', partial[name], name, running));
+        this.emit('commandFinished', running, result);
+        resolve(result);
+      };
+
+      child.on('close', (code, signal) => {
+        const cancelled = this.running?.child === child && this.running.cancelRequestedAt !== undefined;
+
+        if (cancelled) {
+          this.log(`${description} cancelled (${signal ?? `exit code ${code}`})`, 'warning');
+          finish({ success: false, code, stdout: output, stderr: `${errorOutput}\nCancelled by user`.trim(), cancelled: true });
+          return;
+        }
+
+        if (code === 0) {
+          this.log(`${description} completed successfully`, 'success');
+          if (output.trim()) {
+            this.log(output.trim(), 'info');
+          }
+        } else {
+          this.log(`${description} failed with code ${code}`, 'error');
+          if (errorOutput.trim()) {
+            this.log(errorOutput.trim(), 'error');
+          }
+        }
+
+        finish({ success: code === 0, code, stdout: output, stderr: errorOutput });
+      });
+
+      child.on('error', (error) => {
+        this.log(`${description} failed: ${error.message}`, 'error');
+        finish({ success: false, code: null, stdout: output, stderr: error.message });
+      });
+    });
+  }
+
+  get runningCommand(): RunningCommand | null {
+    if (!this.running) return null;
+    const { child, killTimer, ...running } = this.running;
+    return running;
+  }
+
+  // Sends SIGINT so the migration runner can roll back its transaction, then SIGTERM if it is still
+  // running after cancelGracePeriod.
+  cancelRunningCommand(): boolean {
+    const running = this.running;
+    if (!running || running.cancelRequestedAt !== undefined) return false;
+
+    const gracePeriod = this.config.cancelGracePeriod ?? 10000;
+    running.cancelRequestedAt = Date.now();
+    this.log(`Cancelling ${running.description} (SIGINT)...`, 'warning');
+    running.child.kill('SIGINT');
+
+    running.killTimer = setTimeout(() => {
+      if (this.running?.child !== running.child) return;
+      this.log(`${running.description} still running after ${Math.round(gracePeriod / 1000)}s, sending SIGTERM`, 'warning');
+      running.child.kill('SIGTERM');
+    }, gracePeriod);
+
+    return true;
+  }
+
+  // Signals the running command right away, skipping the grace period: used when this process is
+  // itself being stopped, since the command runs in its own process group and would outlive it.
+  terminateRunningCommand(signal: 'SIGTERM' | 'SIGKILL' = 'SIGTERM'): boolean {
+    const running = this.running;
+    if (!running) return false;
+
+    running.cancelRequestedAt ??= Date.now();
+    clearTimeout(running.killTimer);
+    this.log(`Terminating ${running.description} (${signal})...`, 'warning');
+    running.child.kill(signal);
+    return true;
+  }
+
+  private extractDescription(content: string): string {
+    const commentMatch = content.match(/\/\*\*(.*?)\*\//s);
+    if (commentMatch) {
+      return commentMatch[1].replace(/\*/g, '').trim().split('\n')[0].trim();
+    }
+
+    const classMatch = content.match(/export\s+class\s+(\w+)/);
+    if (classMatch) {
+      return classMatch[1].replace(/\d+/, '').replace(/([A-Z])/g, ' $1').trim();
+    }
+
+    const sqlCommentMatch = content.match(/^--\s*(?:Migration:\s*)?(.+)$/m);
+    if (sqlCommentMatch) {
+      return sqlCommentMatch[1].trim();
+    }
+
+    return 'Migration';
+  }
+
+  private formatFileSize(bytes: number): string {
+    const sizes = ['B', 'KB', 'MB'];
+    if (bytes === 0) return '0 B';
+    const i = Math.floor(Math.log(bytes) / Math.log(1024));
+    return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+  }
+}
@@ -0,0 +1,475 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import path from 'path';
+import { getDefaultExport, requireFile } from './loader';
+import { MigrationLock } from './lock';
+import { LockHolder } from './types';
+
+interface QueryRunnerLike {
+  query(sql: string, parameters?: unknown[], ...rest: unknown[]): Promise<unknown>;
+  hasTable(table: string): Promise<boolean>;
+  startTransaction(): Promise<void>;
+  commitTransaction(): Promise<void>;
+  rollbackTransaction(): Promise<void>;
+  release(): Promise<void>;
+  isTransactionActive: boolean;
+}
+
+type Row = Record<string, unknown>;
+
+interface MigrationLike {
+  name: string;
+  timestamp: number;
+}
+
+interface MigrationInterfaceLike {
+  up(queryRunner: QueryRunnerLike): Promise<unknown>;
+  down(queryRunner: QueryRunnerLike): Promise<unknown>;
+}
+
+// WITH and EXPLAIN ANALYZE can wrap writes, and SELECT ... INTO creates a table, so those are
+// recorded like any other write.
+const READ_ONLY_QUERY = /^\s*(SELECT|SHOW|PRAGMA|DESCRIBE|DESC)\b/i;
+const SELECT_INTO = /^\s*SELECT\b[\s\S]*\bINTO\b/i;
+
+// How a preview's transaction is opened; the preview is refused for any other driver type, since
+// nothing would undo what a migration writes behind the recorded query runner.
+const READ_ONLY_TRANSACTION: Record<string, string> = {
+  postgres: 'BEGIN READ ONLY',
+  cockroachdb: 'BEGIN READ ONLY',
+  mysql: 'START TRANSACTION READ ONLY',
+  mariadb: 'START TRANSACTION READ ONLY',
+  sqlite: 'BEGIN',
+  'better-sqlite3': 'BEGIN',
+  sqljs: 'BEGIN',
+  mssql: 'BEGIN TRANSACTION'
+};
+
+export interface DataSourceLike {
+  isInitialized: boolean;
+  options: {
+    type: string;
+    host?: string;
+    database?: string | Uint8Array;
+    location?: string;
+    schema?: string;
+    migrationsTableName?: string;
+  };
+  driver: {
+    escape(name: string): string;
+    createQueryRunner(mode?: string): QueryRunnerLike;
+  };
+  initialize(): Promise<unknown>;
+  destroy(): Promise<void>;
+  query(sql: string, parameters?: unknown[]): Promise<unknown>;
+  createQueryRunner(): QueryRunnerLike;
+  runMigrations(options?: { transaction?: 'all' | 'none' | 'each' }): Promise<MigrationLike[]>;
+  undoLastMigration(options?: { transaction?: 'all' | 'none' | 'each' }): Promise<void>;
+}
+
+export interface AppliedMigrationRecord {
+  id?: number;
+  timestamp: number;
+  name: string;
+}
+
+function isMigrationClass(value: unknown): value is new () => MigrationInterfaceLike {
+  return typeof value === 'function'
+    && typeof value.prototype?.up === 'function'
+    && typeof value.prototype?.down === 'function';
+}
+
+function isDataSource(value: unknown): value is DataSourceLike {
+  return !!value
+    && typeof value === 'object'
+    && typeof (value as DataSourceLike).initialize === 'function'
+    && typeof (value as DataSourceLike).runMigrations === 'function'
+    && typeof (value as DataSourceLike).options === 'object';
+}
+
+// While a preview runs, every query runner the DataSource hands out (to DataSource.query, an
+// EntityManager or a transaction) is the preview's recording runner, so writes that bypass the
+// runner passed to up() or down() are recorded too instead of reaching the database.
+const previewRunners = new AsyncLocalStorage<QueryRunnerLike>();
+const routedDrivers = new WeakSet<DataSourceLike['driver']>();
+
+function routePreviewRunners(driver: DataSourceLike['driver']): void {
+  if (routedDrivers.has(driver)) return;
+  routedDrivers.add(driver);
+
+  const createQueryRunner = driver.createQueryRunner.bind(driver);
+  driver.createQueryRunner = mode => previewRunners.getStore() ?? createQueryRunner(mode);
+}
+
+function hashLockName(name: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < name.length; i++) {
+    hash = Math.imul(hash ^ name.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0) & 0x7fffffff;
+}
+
+const APPLICATION_NAME = 'migration-manager';
+
+// Advisory locks live on a dedicated connection, so they are released by the database if the
+// process holding them dies.
+class PostgresAdvisoryLock implements MigrationLock {
+  readonly kind = 'PostgreSQL advisory lock';
+
+  private runner: QueryRunnerLike | null = null;
+  private readonly key: number;
+
+  constructor(private readonly dataSource: DataSourceLike, name: string) {
+    this.key = hashLockName(name);
+  }
+
+  async acquire(holder: LockHolder): Promise<LockHolder | null> {
+    const runner = this.dataSource.createQueryRunner();
+
+    try {
+      await runner.query(`SELECT set_config('application_name', $1, false)`, [`${APPLICATION_NAME} ${holder.user}@${holder.host}`.slice(0, 63)]);
+      const [row] = await runner.query('SELECT pg_try_advisory_lock($1) AS locked', [this.key]) as Row[];
+
+      if (row?.locked) {
+        this.runner = runner;
+        return null;
+      }
+    } catch (error: unknown) {
+      await this.releaseRunner(runner).catch(() => undefined);
+      throw error;
+    }
+
+    await this.releaseRunner(runner);
+    return (await this.read()) ?? { user: 'unknown', host: 'unknown', acquiredAt: new Date().toISOString() };
+  }
+
+  async release(): Promise<void> {
+    if (!this.runner) return;
+
+    try {
+      await this.runner.query('SELECT pg_advisory_unlock($1)', [this.key]);
+    } finally {
+      await this.releaseRunner(this.runner);
+      this.runner = null;
+    }
+  }
+
+  // application_name names the holder for the whole session, so it is reset before the connection
+  // goes back to the pool; otherwise its next user would show up as holding the lock.
+  private async releaseRunner(runner: QueryRunnerLike): Promise<void> {
+    try {
+      await runner.query('RESET application_name');
+    } finally {
+      await runner.release();
+    }
+  }
+
+  async read(): Promise<LockHolder | null> {
+    const [row] = await this.dataSource.query(
+      `SELECT a.pid, a.usename, a.application_name, a.client_addr, a.backend_start
+       FROM pg_locks l JOIN pg_stat_activity a ON a.pid = l.pid
+       WHERE l.locktype = 'advisory' AND l.granted AND l.classid = 0 AND l.objid::bigint = $1 AND l.objsubid = 1`,
+      [this.key]
+    ) as Row[];
+    if (!row) return null;
+
+    const client = String(row.application_name ?? '').match(new RegExp(`^${APPLICATION_NAME} (.+)@(.+)$`));
+    return {
+      user: client?.[1] ?? String(row.usename),
+      host: client?.[2] ?? String(row.client_addr ?? 'local'),
+      pid: Number(row.pid),
+      acquiredAt: new Date(row.backend_start as string | Date).toISOString()
+    };
+  }
+
+  async forceRelease(): Promise<void> {
+    const holder = await this.read();
+    if (holder?.pid) {
+      await this.dataSource.query('SELECT pg_terminate_backend($1)', [holder.pid]);
+    }
+  }
+}
+
+class MysqlAdvisoryLock implements MigrationLock {
+  readonly kind = 'MySQL named lock';
+
+  private runner: QueryRunnerLike | null = null;
+  private readonly name: string;
+
+  constructor(private readonly dataSource: DataSourceLike, name: string) {
+    this.name = name.slice(0, 64);
+  }
+
+  async acquire(): Promise<LockHolder | null> {
+    const runner = this.dataSource.createQueryRunner();
+
+    try {
+      const [row] = await runner.query('SELECT GET_LOCK(?, 0) AS locked', [this.name]) as Row[];
+
+      if (Number(row?.locked) === 1) {
+        this.runner = runner;
+        return null;
+      }
+    } catch (error: unknown) {
+      await runner.release();
+      throw error;
+    }
+
+    await runner.release();
+    return (await this.read()) ?? { user: 'unknown', host: 'unknown', acquiredAt: new Date().toISOString() };
+  }
+
+  async release(): Promise<void> {
+    if (!this.runner) return;
+
+    try {
+      await this.runner.query('SELECT RELEASE_LOCK(?)', [this.name]);
+    } finally {
+      await this.runner.release();
+      this.runner = null;
+    }
+  }
+
+  // The holder connection is idle after GET_LOCK, so its TIME (seconds in the current state) is
+  // roughly how long the lock has been held.
+  async read(): Promise<LockHolder | null> {
+    const [row] = await this.dataSource.query(
+      'SELECT p.ID AS id, p.USER AS user, p.HOST AS host, p.TIME AS time FROM information_schema.PROCESSLIST p WHERE p.ID = IS_USED_LOCK(?)',
+      [this.name]
+    ) as Row[];
+    if (!row) return null;
+
+    return {
+      user: String(row.user),
+      host: String(row.host),
+      pid: Number(row.id),
+      acquiredAt: new Date(Date.now() - Number(row.time) * 1000).toISOString()
+    };
+  }
+
+  async forceRelease(): Promise<void> {
+    const holder = await this.read();
+    if (holder?.pid) {
+      await this.dataSource.query(`KILL ${Number(holder.pid)}`);
+    }
+  }
+}
+
+// Changes the global process.env for the duration of run, including across its awaits, so anything
+// else running meanwhile sees these values too. Callers keep the window short and single (see
+// DataSourceBackend.connect), and only ever pass the active profile's variables.
+async function withEnv<T>(env: Record<string, string>, run: () => Promise<T>): Promise<T> {
+  const previous = Object.keys(env).map(key => [key, process.env[key]] as const);
+  Object.assign(process.env, env);
+
+  try {
+    return await run();
+  } finally {
+    for (const [key, value] of previous) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  }
+}
+
+export class DataSourceBackend {
+  private dataSource: DataSourceLike | null = null;
+  private connecting: Promise<DataSourceLike> | null = null;
+
+  constructor(
+    readonly filePath: string,
+    private readonly env: Record<string, string> = {}
+  ) {}
+
+  // Concurrent callers (a status refresh, the watcher, a preview) share the in-flight connection, so
+  // the file is required and initialized once.
+  connect(): Promise<DataSourceLike> {
+    if (this.dataSource?.isInitialized) {
+      return Promise.resolve(this.dataSource);
+    }
+
+    if (!this.connecting) {
+      const connecting = this.load().then(dataSource => {
+        this.dataSource = dataSource;
+        return dataSource;
+      });
+      const clear = () => {
+        if (this.connecting === connecting) {
+          this.connecting = null;
+        }
+      };
+      connecting.then(clear, clear);
+      this.connecting = connecting;
+    }
+
+    return this.connecting;
+  }
+
+  // DataSource files usually read connection settings from process.env at import time, so the
+  // active profile's variables are set while the file is required and initialized, then restored
+  // so they do not leak into other profiles. Commands the core runs meanwhile get the same profile's
+  // variables from their own env anyway.
+  private load(): Promise<DataSourceLike> {
+    return withEnv(this.env, async () => {
+      const exported = await requireFile(path.resolve(this.filePath));
+      const candidates = [getDefaultExport(exported), ...Object.values(exported as Record<string, unknown>)];
+      const found = candidates.find(isDataSource);
+
+      if (!found) {
+        throw new Error(`${this.filePath} does not export a TypeORM DataSource`);
+      }
+
+      if (!found.isInitialized) {
+        await found.initialize();
+      }
+
+      return found;
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    await this.connecting?.catch(() => null);
+    if (this.dataSource?.isInitialized) {
+      await this.dataSource.destroy();
+    }
+    this.dataSource = null;
+  }
+
+  getConnectionInfo(): { host: string; database: string } | null {
+    if (!this.dataSource) return null;
+
+    const { type, host, database, location } = this.dataSource.options;
+    const databaseName = typeof database === 'string' ? database : location;
+
+    if (host) {
+      return { host, database: databaseName || type };
+    }
+
+    return { host: type, database: databaseName ? path.basename(databaseName) : type };
+  }
+
+  async createAdvisoryLock(): Promise<MigrationLock | null> {
+    const dataSource = await this.connect();
+    const { type, database, schema, migrationsTableName } = dataSource.options;
+    const name = `${APPLICATION_NAME}:${typeof database === 'string' ? database : ''}:${schema ?? ''}:${migrationsTableName || 'migrations'}`;
+
+    switch (type) {
+      case 'postgres':
+        return new PostgresAdvisoryLock(dataSource, name);
+      case 'mysql':
+      case 'mariadb':
+        return new MysqlAdvisoryLock(dataSource, name);
+      default:
+        return null;
+    }
+  }
+
+  async ping(): Promise<void> {
+    const dataSource = await this.connect();
+    await dataSource.query('SELECT 1');
+  }
+
+  async getAppliedMigrations(): Promise<AppliedMigrationRecord[]> {
+    const dataSource = await this.connect();
+    const tableName = dataSource.options.migrationsTableName || 'migrations';
+    const schema = dataSource.options.schema;
+    const qualifiedName = schema ? `${schema}.${tableName}` : tableName;
+    const queryRunner = dataSource.createQueryRunner();
+
+    try {
+      if (!(await queryRunner.hasTable(qualifiedName))) {
+        return [];
+      }
+
+      const escapedName = schema
+        ? `${dataSource.driver.escape(schema)}.${dataSource.driver.escape(tableName)}`
+        : dataSource.driver.escape(tableName);
+      const rows = await queryRunner.query(`SELECT * FROM ${escapedName}`) as Row[];
+
+      return rows
+        .map(row => ({
+          id: row.id !== undefined ? Number(row.id) : undefined,
+          timestamp: Number(row.timestamp),
+          name: String(row.name)
+        }))
+        // Keep execution order: TypeORM reverts the last executed migration, not the newest by timestamp.
+        .sort((a, b) => (a.id !== undefined && b.id !== undefined ? a.id - b.id : a.timestamp - b.timestamp));
+    } finally {
+      await queryRunner.release();
+    }
+  }
+
+  // Write statements are recorded instead of executed. Read-only queries still reach the database,
+  // since TypeORM's schema helpers inspect existing tables before building their DDL; they run on a
+  // dedicated runner inside a (read-only where supported) transaction that is always rolled back.
+  async recordMigration(filePath: string, direction: 'up' | 'down'): Promise<string[]> {
+    const dataSource = await this.connect();
+    const begin = READ_ONLY_TRANSACTION[dataSource.options.type];
+
+    if (!begin) {
+      throw new Error(`SQL preview is not supported for "${dataSource.options.type}" DataSources: the migration could not be kept from writing`);
+    }
+
+    const exported = await requireFile(filePath) as Record<string, unknown>;
+    const MigrationClass = [getDefaultExport(exported), ...Object.values(exported)].find(isMigrationClass);
+
+    if (!MigrationClass) {
+      throw new Error(`${path.basename(filePath)} does not export a migration class`);
+    }
+
+    routePreviewRunners(dataSource.driver);
+
+    // The recorder inherits everything else from the real runner. SQLite drivers share one runner,
+    // which is why it is wrapped rather than patched. The preview owns the one transaction, so the
+    // migration's own transaction calls and releases do nothing; a commit or release would otherwise
+    // let sql.js save the database, which ends the open transaction.
+    const queryRunner = dataSource.createQueryRunner();
+    const runQuery = queryRunner.query.bind(queryRunner);
+    const statements: string[] = [];
+    const recorder: QueryRunnerLike = Object.create(queryRunner);
+
+    recorder.query = async (sql, parameters, ...rest) => {
+      if (READ_ONLY_QUERY.test(sql) && !SELECT_INTO.test(sql)) {
+        return runQuery(sql, parameters, ...rest);
+      }
+
+      const statement = /;\s*$/.test(sql) ? sql.trim() : `${sql.trim()};`;
+      statements.push(parameters?.length ? `-- parameters: ${JSON.stringify(parameters)}\n${statement}` : statement);
+      return [];
+    };
+    recorder.startTransaction = async () => {};
+    recorder.commitTransaction = async () => {};
+    recorder.rollbackTransaction = async () => {};
+    recorder.release = async () => {};
+
+    try {
+      await runQuery(begin);
+      queryRunner.isTransactionActive = true;
+      try {
+        await previewRunners.run(recorder, () => new MigrationClass()[direction](recorder));
+      } finally {
+        queryRunner.isTransactionActive = false;
+        await runQuery('ROLLBACK');
+      }
+    } finally {
+      await queryRunner.release();
+    }
+
+    return statements;
+  }
+
+  async runMigrations(): Promise<string[]> {
+    const dataSource = await this.connect();
+    const migrations = await dataSource.runMigrations();
+    return migrations.map(migration => migration.name);
+  }
+
+  async undoLastMigration(): Promise<string | null> {
+    const applied = await this.getAppliedMigrations();
+    const dataSource = await this.connect();
+    await dataSource.undoLastMigration();
+    return applied.length > 0 ? applied[applied.length - 1].name : null;
+  }
+}
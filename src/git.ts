@@ -0,0 +1,43 @@
+export type GitFileStatus = 'committed' | 'modified' | 'added' | 'untracked' | 'ignored';
+
+export interface GitCommitInfo {
+  hash: string;
+  author: string;
+  date: string;
+  subject: string;
+}
+
+export interface GitFileInfo {
+  status: GitFileStatus;
+  // The commit that added the file (following renames); null until it is committed.
+  introducedBy: GitCommitInfo | null;
+}
+
+const FIELD_SEPARATOR = '\x1f';
+
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+export function gitStatusCommand(dir: string, file: string): string {
+  return `git -C ${shellQuote(dir)} status --porcelain --ignored -- ${shellQuote(file)}`;
+}
+
+export function gitIntroducedCommand(dir: string, file: string): string {
+  return `git -C ${shellQuote(dir)} log --follow --diff-filter=A -1 --format=%H%x1f%an%x1f%aI%x1f%s -- ${shellQuote(file)}`;
+}
+
+export function parseGitStatus(output: string): GitFileStatus {
+  const code = output.split('\n').find(line => line.trim())?.slice(0, 2);
+
+  if (!code) return 'committed';
+  if (code === '??') return 'untracked';
+  if (code === '!!') return 'ignored';
+  if (code[0] === 'A') return 'added';
+  return 'modified';
+}
+
+export function parseGitCommit(output: string): GitCommitInfo | null {
+  const [hash, author, date, subject] = output.trim().split(FIELD_SEPARATOR);
+  return hash ? { hash, author: author ?? '', date: date ?? '', subject: subject ?? '' } : null;
+}
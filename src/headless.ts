@@ -0,0 +1,417 @@
+import { promises as fs } from 'fs';
+import { isMigrationApplied, MigrationCore } from './core';
+import { getLintErrors } from './lint';
+import { formatSqlPreview } from './preview';
+import {
+  buildStatusReport,
+  formatJsonReport,
+  formatJUnitReport,
+  REPORT_FORMATS,
+  ReportFormat
+} from './report';
+import { Logger, Migration, MigrationPlan, MigrationShellConfig } from './types';
+
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_PENDING = 3;
+
+const FORWARDED_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGHUP'];
+const EXIT_SIGNAL = { SIGHUP: 129, SIGINT: 130, SIGTERM: 143 };
+
+export const HEADLESS_COMMANDS = ['status', 'up', 'down', 'to', 'create', 'generate', 'lint', 'help'] as const;
+
+export type HeadlessCommand = typeof HEADLESS_COMMANDS[number];
+
+// Positional arguments each command takes; anything beyond these is rejected rather than ignored, so
+// a typo such as "down 2" does not silently run a plain down.
+const COMMAND_ARGS: Record<HeadlessCommand, number> = {
+  status: 0,
+  up: 0,
+  down: 0,
+  to: 1,
+  create: 1,
+  generate: 1,
+  lint: 0,
+  help: 0
+};
+
+export interface HeadlessOptions {
+  command?: HeadlessCommand;
+  args: string[];
+  migrationsDir?: string;
+  configPath?: string;
+  profile?: string;
+  confirm?: string;
+  quiet: boolean;
+  format: ReportFormat;
+  output?: string;
+  failOnPending: boolean;
+  dryRun: boolean;
+  overrideLint: boolean;
+}
+
+export class UsageError extends Error {
+  constructor(message: string, public readonly showUsage: boolean = true) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export function isHeadlessCommand(value: string): value is HeadlessCommand {
+  return (HEADLESS_COMMANDS as readonly string[]).includes(value);
+}
+
+export function parseArgs(argv: string[]): HeadlessOptions {
+  const options: HeadlessOptions = { args: [], quiet: false, format: 'text', failOnPending: false, dryRun: false, overrideLint: false };
+
+  const readValue = (index: number, name: string): string => {
+    const value = argv[index];
+    if (!value) {
+      throw new UsageError(`Missing value for ${name}`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (arg === '-d' || arg === '--migrations-dir') {
+      options.migrationsDir = readValue(++i, arg);
+    } else if (arg === '-c' || arg === '--config') {
+      options.configPath = readValue(++i, arg);
+    } else if (arg === '-p' || arg === '--profile') {
+      options.profile = readValue(++i, arg);
+    } else if (arg === '--confirm') {
+      options.confirm = readValue(++i, arg);
+    } else if (arg === '-f' || arg === '--format') {
+      const value = readValue(++i, arg);
+      if (!REPORT_FORMATS.includes(value as ReportFormat)) {
+        throw new UsageError(`Invalid format "${value}". Expected one of: ${REPORT_FORMATS.join(', ')}`);
+      }
+      options.format = value as ReportFormat;
+    } else if (arg === '-o' || arg === '--output') {
+      options.output = readValue(++i, arg);
+    } else if (arg === '--fail-on-pending') {
+      options.failOnPending = true;
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--override-lint') {
+      options.overrideLint = true;
+    } else if (arg === '-q' || arg === '--quiet') {
+      options.quiet = true;
+    } else if (arg === '-h' || arg === '--help') {
+      options.command = 'help';
+    } else if (arg.startsWith('-')) {
+      throw new UsageError(`Unknown option: ${arg}`);
+    } else if (!options.command) {
+      if (!isHeadlessCommand(arg)) {
+        throw new UsageError(`Unknown command: ${arg}`);
+      }
+      options.command = arg;
+    } else {
+      options.args.push(arg);
+    }
+  }
+
+  const expected = options.command ? COMMAND_ARGS[options.command] : 0;
+  if (options.command !== 'help' && options.args.length > expected) {
+    const unexpected = options.args.slice(expected).join(' ');
+    throw new UsageError(`Unexpected argument${options.args.length - expected > 1 ? 's' : ''} for "${options.command}": ${unexpected}`);
+  }
+
+  return options;
+}
+
+export function formatUsage(): string {
+  return [
+    'Usage: migration-manager [command] [options]',
+    '',
+    'Without a command the interactive TUI is started (requires a TTY).',
+    '',
+    'Commands:',
+    '  status            Show applied and pending migrations',
+    '  up                Apply all pending migrations',
+    '  down              Revert the last applied migration',
+    '  to <migration>    Migrate up or down to a migration (name or timestamp)',
+    '  create <name>     Create a new empty migration',
+    '  generate <name>   Generate a migration from the schema',
+    '  lint              Check migration files for risky changes',
+    '  help              Show this help',
+    '',
+    'Options:',
+    '  -c, --config <file>           Path to config file (default: auto-discovered)',
+    '  -d, --migrations-dir <path>   Path to migrations directory',
+    '  -p, --profile <name>          Environment profile to use',
+    '      --confirm <database>      Database name, required for up/down/to on protected profiles',
+    '  -q, --quiet                   Only print warnings and errors',
+    '  -f, --format <format>         Status output format: text, json or junit',
+    '  -o, --output <file>           Write the status report to a file',
+    '      --fail-on-pending         Exit with code 3 when migrations are pending',
+    '      --dry-run                 Print the SQL that up, down or to would run, without running it',
+    '      --override-lint           Run up or to even if pending migrations have lint errors',
+    '  -h, --help                    Show this help',
+    '',
+    'Exit codes:',
+    `  ${EXIT_OK}  Success`,
+    `  ${EXIT_FAILURE}  Command failed or database unreachable`,
+    `  ${EXIT_USAGE}  Invalid usage or configuration`,
+    `  ${EXIT_PENDING}  Pending migrations found (with --fail-on-pending)`
+  ].join('\n');
+}
+
+function formatMigrationLine(migration: Migration): string {
+  const status = `[${migration.status}]`.padEnd(10);
+  return `${status} ${migration.name}  ${migration.description || 'No description'}`;
+}
+
+function createConsoleLogger(quiet: boolean, machineReadable: boolean): Logger {
+  return (message, type) => {
+    if (type === 'error' || type === 'warning') {
+      console.error(message);
+    } else if (!quiet) {
+      (machineReadable ? console.error : console.log)(message);
+    }
+  };
+}
+
+function formatStatusText(migrations: Migration[], core: MigrationCore): string {
+  const modified = migrations.filter(m => m.status === 'modified').length;
+  const orphaned = migrations.filter(m => m.status === 'orphaned').length;
+
+  return [
+    ...migrations.map(formatMigrationLine),
+    '',
+    `Total: ${core.dbInfo.migrationsCount}, pending: ${core.dbInfo.pendingCount}` +
+      (modified > 0 ? `, modified: ${modified}` : '') +
+      (orphaned > 0 ? `, orphaned: ${orphaned}` : '')
+  ].join('\n');
+}
+
+async function runStatus(core: MigrationCore, options: HeadlessOptions): Promise<number> {
+  const migrations = await core.loadMigrations();
+  const report = buildStatusReport(migrations, core.dbInfo);
+
+  const output = {
+    text: () => formatStatusText(migrations, core),
+    json: () => formatJsonReport(report),
+    junit: () => formatJUnitReport(report)
+  }[options.format]();
+
+  if (options.output) {
+    await fs.writeFile(options.output, `${output}\n`, 'utf-8');
+    console.error(`Status report written to ${options.output}`);
+  } else {
+    console.log(output);
+  }
+
+  if (!core.dbInfo.connected) {
+    return EXIT_FAILURE;
+  }
+
+  if (options.failOnPending && report.summary.pending > 0) {
+    return EXIT_PENDING;
+  }
+
+  return EXIT_OK;
+}
+
+function findMigration(migrations: Migration[], reference: string): Migration {
+  const matches = migrations.filter(migration =>
+    migration.name === reference
+    || migration.className === reference
+    || migration.name.replace(/\.[^.]+$/, '') === reference
+    || String(migration.timestamp) === reference
+  );
+
+  if (matches.length === 0) {
+    throw new UsageError(`Migration not found: ${reference}`, false);
+  }
+
+  if (matches.length > 1) {
+    throw new UsageError(`Ambiguous migration "${reference}": ${matches.map(m => m.name).join(', ')}`, false);
+  }
+
+  return matches[0];
+}
+
+async function runMigrateTo(core: MigrationCore, options: HeadlessOptions): Promise<number> {
+  const reference = options.args[0]?.trim();
+  if (!reference) {
+    throw new UsageError('Missing target migration for "to"');
+  }
+
+  const target = findMigration(await core.loadMigrations(), reference);
+  let plan: MigrationPlan;
+
+  try {
+    plan = await core.planMigrateTo(target);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(errorMessage);
+    return EXIT_FAILURE;
+  }
+
+  if (plan.steps.length === 0) {
+    console.log(`Database is already at ${target.name}`);
+    return EXIT_OK;
+  }
+
+  if (options.dryRun) {
+    return printDryRun(core, 'Migrate to', plan);
+  }
+
+  ensureConfirmed(core, options);
+
+  console.log(`Plan to ${target.name}:`);
+  plan.steps.forEach((step, index) => console.log(`  ${index + 1}. ${step.direction.padEnd(4)} ${step.migration.name}`));
+
+  const results = await core.executePlan(plan, (index, step, result) => {
+    if (result) {
+      console.log(`[${index + 1}/${plan.steps.length}] ${step.direction} ${step.migration.name}: ${result.success ? 'ok' : 'failed'}`);
+    }
+  }, { overrideLint: options.overrideLint, confirm: options.confirm });
+
+  return results.length === plan.steps.length && results.every(step => step.result.success) ? EXIT_OK : EXIT_FAILURE;
+}
+
+async function runLint(core: MigrationCore): Promise<number> {
+  const migrations = await core.loadMigrations();
+  let blocking = 0;
+
+  for (const migration of migrations) {
+    for (const finding of migration.lint ?? []) {
+      const location = finding.line ? `:${finding.line}` : '';
+      console.log(`${migration.name}${location}  ${finding.severity.padEnd(7)} ${finding.rule}  ${finding.message}`);
+    }
+
+    if (!isMigrationApplied(migration) && getLintErrors(migration.lint).length > 0) {
+      blocking++;
+    }
+  }
+
+  const findings = migrations.reduce((total, migration) => total + (migration.lint?.length ?? 0), 0);
+  console.log(`${findings} finding(s), ${blocking} unapplied migration(s) with errors`);
+
+  return blocking > 0 ? EXIT_FAILURE : EXIT_OK;
+}
+
+async function runDryRun(core: MigrationCore, command: 'up' | 'down'): Promise<number> {
+  let plan: MigrationPlan;
+
+  try {
+    plan = command === 'up' ? await core.planUp() : await core.planDown();
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(errorMessage);
+    return core.dbInfo.connected ? EXIT_OK : EXIT_FAILURE;
+  }
+
+  return printDryRun(core, command === 'up' ? 'Apply migrations' : 'Revert migration', plan);
+}
+
+async function printDryRun(core: MigrationCore, title: string, plan: MigrationPlan): Promise<number> {
+  const previews = await core.previewPlan(plan);
+
+  console.log(formatSqlPreview(previews, [
+    `${title}: ${plan.target.name} (dry run)`,
+    `Profile: ${core.activeProfile ?? 'default'}, database: ${core.dbInfo.database}@${core.dbInfo.host}`
+  ]).trimEnd());
+
+  return previews.some(preview => preview.error) ? EXIT_FAILURE : EXIT_OK;
+}
+
+function ensureConfirmed(core: MigrationCore, options: HeadlessOptions): void {
+  if (!core.isProtected()) return;
+
+  const expected = core.getConfirmationName();
+  if (!expected) {
+    throw new UsageError(
+      `Profile "${core.activeProfile}" is protected but has no database name configured. Set "database.name" for it to run "${options.command}"`,
+      false
+    );
+  }
+
+  if (options.confirm !== expected) {
+    throw new UsageError(`Profile "${core.activeProfile}" is protected. Pass --confirm ${expected} to run "${options.command}"`, false);
+  }
+}
+
+export async function runHeadless(options: HeadlessOptions, config: MigrationShellConfig = {}): Promise<number> {
+  if (!options.command || options.command === 'help') {
+    console.log(formatUsage());
+    return EXIT_OK;
+  }
+
+  const core = new MigrationCore(
+    {
+      ...config,
+      migrationsDir: options.migrationsDir || config.migrationsDir,
+      defaultProfile: options.profile || config.defaultProfile
+    },
+    createConsoleLogger(options.quiet, options.format !== 'text')
+  );
+
+  // Commands run in their own process group, so forward Ctrl+C (and a CI runner's SIGTERM/SIGHUP) to
+  // the running command and let the run finish (and be recorded, and release the lock) as cancelled.
+  // A second signal terminates the command right away; a third kills it and exits.
+  let signals = 0;
+  const onSignal = (signal: NodeJS.Signals) => {
+    signals++;
+    if (signals === 1 && core.cancelRunningCommand()) return;
+    if (signals <= 2 && core.terminateRunningCommand()) return;
+
+    core.terminateRunningCommand('SIGKILL');
+    process.exit(EXIT_SIGNAL[signal as keyof typeof EXIT_SIGNAL] ?? EXIT_FAILURE);
+  };
+  for (const signal of FORWARDED_SIGNALS) {
+    process.on(signal, onSignal);
+  }
+
+  try {
+    return await runCommand(core, options);
+  } finally {
+    for (const signal of FORWARDED_SIGNALS) {
+      process.off(signal, onSignal);
+    }
+    await core.dispose();
+  }
+}
+
+async function runCommand(core: MigrationCore, options: HeadlessOptions): Promise<number> {
+  switch (options.command) {
+    case 'status':
+      return runStatus(core, options);
+    case 'up': {
+      if (options.dryRun) return runDryRun(core, 'up');
+      ensureConfirmed(core, options);
+      const result = await core.migrateUp({ overrideLint: options.overrideLint, confirm: options.confirm });
+      return result.success ? EXIT_OK : EXIT_FAILURE;
+    }
+    case 'down': {
+      if (options.dryRun) return runDryRun(core, 'down');
+      ensureConfirmed(core, options);
+      const result = await core.migrateDown({ confirm: options.confirm });
+      return result.success ? EXIT_OK : EXIT_FAILURE;
+    }
+    case 'to':
+      return runMigrateTo(core, options);
+    case 'lint':
+      return runLint(core);
+    case 'create':
+    case 'generate': {
+      const name = options.args[0]?.trim();
+      if (!name) {
+        throw new UsageError(`Missing migration name for "${options.command}"`);
+      }
+
+      const result = options.command === 'create'
+        ? await core.createMigration(name)
+        : await core.generateMigration(name);
+      return result.success ? EXIT_OK : EXIT_FAILURE;
+    }
+    default:
+      console.log(formatUsage());
+      return EXIT_OK;
+  }
+}
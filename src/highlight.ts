@@ -0,0 +1,111 @@
+export type SourceLanguage = 'typescript' | 'sql';
+
+const TS_KEYWORDS = new Set([
+  'import', 'export', 'from', 'class', 'implements', 'extends', 'public', 'private', 'protected', 'readonly',
+  'async', 'await', 'function', 'return', 'const', 'let', 'var', 'new', 'if', 'else', 'for', 'of', 'in',
+  'while', 'try', 'catch', 'finally', 'throw', 'this', 'true', 'false', 'null', 'undefined', 'void',
+  'interface', 'type', 'default', 'static', 'as'
+]);
+
+const SQL_KEYWORDS = new Set([
+  'SELECT', 'FROM', 'WHERE', 'INSERT', 'INTO', 'VALUES', 'UPDATE', 'SET', 'DELETE', 'CREATE', 'ALTER', 'DROP',
+  'TABLE', 'COLUMN', 'INDEX', 'UNIQUE', 'PRIMARY', 'FOREIGN', 'KEY', 'REFERENCES', 'CONSTRAINT', 'ADD',
+  'DEFAULT', 'NOT', 'NULL', 'ON', 'CASCADE', 'IF', 'EXISTS', 'AND', 'OR', 'AS', 'JOIN', 'LEFT', 'INNER',
+  'TRUNCATE', 'RENAME', 'TO', 'TYPE', 'CONCURRENTLY', 'BEGIN', 'COMMIT', 'ROLLBACK', 'CHECK', 'ENUM',
+  'SEQUENCE', 'VIEW', 'TRIGGER', 'GRANT', 'REVOKE', 'WITH', 'USING', 'ORDER', 'BY', 'GROUP', 'LIMIT'
+]);
+
+type State = 'code' | 'block-comment' | 'template';
+
+export function escapeTags(text: string): string {
+  return text.replace(/[{}]/g, ch => ch === '{' ? '{open}' : '{close}');
+}
+
+function color(text: string, fg: string): string {
+  return `{${fg}-fg}${escapeTags(text)}{/${fg}-fg}`;
+}
+
+function highlightWords(text: string, language: SourceLanguage, sqlOnly: boolean): string {
+  return text.replace(/([A-Za-z_$][\w$]*)|(\d+(?:\.\d+)?)|([^A-Za-z_$\d]+)/g, (match, word, number, other) => {
+    if (word) {
+      if (SQL_KEYWORDS.has(word.toUpperCase()) && (sqlOnly || language === 'sql')) return color(word, 'magenta');
+      if (!sqlOnly && language === 'typescript' && TS_KEYWORDS.has(word)) return color(word, 'blue');
+      if (!sqlOnly && language === 'typescript' && /^[A-Z]/.test(word)) return color(word, 'cyan');
+      return escapeTags(word);
+    }
+    if (number) return color(number, 'yellow');
+    return escapeTags(other);
+  });
+}
+
+// Highlights line by line, carrying block comments and template literals (where TypeORM migrations
+// keep their SQL) across lines. Returns blessed-tagged lines.
+export function highlightSource(content: string, language: SourceLanguage): string[] {
+  const lineComment = language === 'sql' ? '--' : '//';
+  let state: State = 'code';
+
+  return content.split('\n').map(line => {
+    let output = '';
+    let i = 0;
+
+    while (i < line.length) {
+      if (state === 'block-comment') {
+        const end = line.indexOf('*/', i);
+        const stop = end === -1 ? line.length : end + 2;
+        output += color(line.slice(i, stop), 'gray');
+        i = stop;
+        if (end !== -1) state = 'code';
+        continue;
+      }
+
+      if (state === 'template') {
+        const end = line.indexOf('`', i);
+        const stop = end === -1 ? line.length : end;
+        output += highlightWords(line.slice(i, stop), language, true);
+        if (end !== -1) {
+          output += color('`', 'green');
+          state = 'code';
+        }
+        i = end === -1 ? line.length : end + 1;
+        continue;
+      }
+
+      const rest = line.slice(i);
+
+      if (rest.startsWith(lineComment)) {
+        output += color(rest, 'gray');
+        break;
+      }
+
+      if (rest.startsWith('/*')) {
+        state = 'block-comment';
+        continue;
+      }
+
+      if (language === 'typescript' && rest[0] === '`') {
+        output += color('`', 'green');
+        state = 'template';
+        i++;
+        continue;
+      }
+
+      if (rest[0] === '\'' || rest[0] === '"') {
+        const quote = rest[0];
+        let end = 1;
+        while (end < rest.length && rest[end] !== quote) {
+          end += rest[end] === '\\' ? 2 : 1;
+        }
+        output += color(rest.slice(0, end + 1), 'green');
+        i += end + 1;
+        continue;
+      }
+
+      const next = rest.slice(1).search(/\/\/|--|\/\*|[`'"]/);
+      const plain = next === -1 ? rest : rest.slice(0, next + 1);
+      output += highlightWords(plain, language, false);
+      i += plain.length;
+    }
+
+    return output;
+  });
+}
@@ -0,0 +1,84 @@
+import os from 'os';
+import path from 'path';
+import { FileSystem, nodeFileSystem, ProcessRunner, shellRunner } from './runtime';
+import { HistoryEntry } from './types';
+
+export const DEFAULT_HISTORY_FILE = '.migration-history.jsonl';
+
+const MAX_OUTPUT_LENGTH = 20000;
+
+const GIT_CONFIG_TIMEOUT = 2000;
+
+async function readGitConfig(runner: ProcessRunner, key: string): Promise<string> {
+  try {
+    return (await runner.read(`git config ${key}`, { env: process.env, timeout: GIT_CONFIG_TIMEOUT })).trim();
+  } catch {
+    // git exits non-zero when the key is unset, and may not be installed at all.
+    return '';
+  }
+}
+
+async function readGitUser(runner: ProcessRunner): Promise<string | null> {
+  const [name, email] = await Promise.all([readGitConfig(runner, 'user.name'), readGitConfig(runner, 'user.email')]);
+  if (!name && !email) return null;
+  return email ? `${name} <${email}>`.trim() : name;
+}
+
+function readOsUser(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return process.env.USER || process.env.USERNAME || 'unknown';
+  }
+}
+
+export function truncateOutput(output: string): string {
+  if (output.length <= MAX_OUTPUT_LENGTH) return output;
+  return `… (${output.length - MAX_OUTPUT_LENGTH} characters truncated)\n${output.slice(-MAX_OUTPUT_LENGTH)}`;
+}
+
+export class RunHistory {
+  private user: Promise<{ user: string; gitUser: string | null }> | null = null;
+
+  constructor(
+    readonly filePath: string,
+    private readonly fs: FileSystem = nodeFileSystem,
+    private readonly runner: ProcessRunner = shellRunner
+  ) {}
+
+  getUser(): Promise<{ user: string; gitUser: string | null }> {
+    if (!this.user) {
+      this.user = readGitUser(this.runner).then(gitUser => ({ user: readOsUser(), gitUser }));
+    }
+    return this.user;
+  }
+
+  async append(entry: HistoryEntry): Promise<void> {
+    await this.fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await this.fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`, 'utf-8');
+  }
+
+  async read(): Promise<HistoryEntry[]> {
+    let content: string;
+
+    try {
+      content = await this.fs.readFile(this.filePath, 'utf-8');
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: HistoryEntry[] = [];
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A partially written line (e.g. from a killed process) must not hide the rest of the history.
+      }
+    }
+
+    return entries;
+  }
+}
@@ -1,2 +1,30 @@
-#!/usr/bin/env node
 export { ModernMigrationShell } from './cli';
+export { MigrationCore, MigrationRuntime, RunOptions, isMigrationApplied, isMigrationPending } from './core';
+export { runHeadless, parseArgs, HeadlessOptions, HeadlessCommand } from './headless';
+export * from './types';
+export {
+  buildStatusReport,
+  formatJsonReport,
+  formatJUnitReport,
+  StatusReport,
+  MigrationReportEntry,
+  ReportFormat
+} from './report';
+export { loadConfig, findConfigFile, validateConfig, ConfigError, LoadedConfig } from './config';
+export { DataSourceBackend, AppliedMigrationRecord } from './datasource';
+export { formatSqlPreview } from './preview';
+export { diffQueries, extractUpQueries, TableDiff, SchemaChange } from './schema-diff';
+export { GitCommitInfo, GitFileInfo, GitFileStatus } from './git';
+export { lintMigration, LINT_RULES } from './lint';
+export { RunHistory } from './history';
+export { FileLock, MigrationLock, formatLockHolder } from './lock';
+export { CommandProcess, FileSystem, ProcessRunner, ReadOptions, nodeFileSystem, shellRunner } from './runtime';
+export {
+  AdapterContext,
+  MigrationAdapter,
+  MigrationAdapterFactory,
+  TypeOrmAdapter,
+  SqlAdapter,
+  builtinAdapters,
+  parseAppliedMigrations
+} from './adapters';
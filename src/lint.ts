@@ -0,0 +1,345 @@
+import { LintConfig, LintFinding, LintRuleId, LintSeverity } from './types';
+
+export const LINT_RULES: Record<LintRuleId, { severity: LintSeverity; description: string }> = {
+  'drop-table': { severity: 'error', description: 'Drops a table' },
+  'drop-column': { severity: 'warning', description: 'Drops a column' },
+  'not-null-without-default': { severity: 'error', description: 'Adds a NOT NULL column or constraint without a default' },
+  'non-concurrent-index': { severity: 'warning', description: 'Creates an index without CONCURRENTLY' },
+  'missing-down': { severity: 'warning', description: 'Has no down migration' },
+  'truncate': { severity: 'error', description: 'Truncates a table' }
+};
+
+export const LINT_SEVERITIES: LintSeverity[] = ['error', 'warning', 'info'];
+
+const DISABLE_COMMENT = /migration-lint-disable\b([^\n*]*)/g;
+export const DOWN_METHOD = /\b(?:public\s+)?(?:async\s+)?down\s*\(/;
+export const UP_METHOD = /\b(?:public\s+)?(?:async\s+)?up\s*\(/;
+
+export interface LintSource {
+  content: string;
+  // The separate down file's content for adapters that keep it in its own file: null when the file
+  // is missing, undefined when the down migration lives in the same file as the up migration.
+  downContent?: string | null;
+  // The content is plain SQL, like a .sql file, rather than code that passes its SQL to query().
+  sql?: boolean;
+}
+
+interface Match {
+  rule: LintRuleId;
+  index: number;
+  message: string;
+}
+
+interface MaskedSource {
+  // The source with its comments blanked out.
+  code: string;
+  // Only the SQL: the string and template literals passed to query(), or all of a SQL file, without
+  // SQL comments or the contents of SQL string literals.
+  sql: string;
+}
+
+const QUERY_CALL = /\bquery\s*\(\s*$/;
+
+// Everything is blanked with spaces rather than removed, keeping newlines, so offsets into a masked
+// source still point at the right line of the original.
+function blank(text: string): string {
+  return text.replace(/[^\n]/g, ' ');
+}
+
+function stripSqlNoise(sql: string): string {
+  return sql.replace(/--[^\n]*|\/\*[\s\S]*?\*\/|'[^']*'/g, match =>
+    match.startsWith("'") ? `'${blank(match.slice(1, -1))}'` : blank(match)
+  );
+}
+
+function maskCode(content: string): MaskedSource {
+  const code = content.split('');
+  const sql = blank(content).split('');
+
+  const blankCode = (start: number, end: number) => {
+    for (let i = start; i < end; i++) {
+      if (code[i] !== '\n') code[i] = ' ';
+    }
+  };
+
+  // Copies a literal's body into the SQL, with ${ and } around interpolations blanked and its quotes
+  // turned into statement separators, so two query() calls never read as one statement.
+  const keepSql = (start: number, end: number) => {
+    const body = stripSqlNoise(content.slice(start + 1, end - 1).replace(/\$\{|\}/g, blank));
+    sql.splice(start, end - start, ';', ...body, ';');
+  };
+
+  const scanString = (i: number, quote: string): number => {
+    while (i < content.length && content[i] !== quote && content[i] !== '\n') {
+      i += content[i] === '\\' ? 2 : 1;
+    }
+    return Math.min(i + 1, content.length);
+  };
+
+  const scanTemplate = (i: number): number => {
+    while (i < content.length) {
+      if (content[i] === '\\') {
+        i += 2;
+      } else if (content[i] === '`') {
+        return i + 1;
+      } else if (content.startsWith('${', i)) {
+        i = scanCode(i + 2, true) + 1;
+      } else {
+        i++;
+      }
+    }
+    return content.length;
+  };
+
+  // Returns where the code ends: the end of the content, or the brace closing an interpolation.
+  function scanCode(i: number, interpolation: boolean): number {
+    let depth = 0;
+
+    while (i < content.length) {
+      const char = content[i];
+
+      if (content.startsWith('//', i) || content.startsWith('/*', i)) {
+        const close = content[i + 1] === '/' ? content.indexOf('\n', i) : content.indexOf('*/', i + 2);
+        const end = close < 0 ? content.length : content[i + 1] === '/' ? close : close + 2;
+        blankCode(i, end);
+        i = end;
+      } else if (char === "'" || char === '"' || char === '`') {
+        const isQueryArgument = QUERY_CALL.test(code.slice(Math.max(0, i - 100), i).join(''));
+        const end = char === '`' ? scanTemplate(i + 1) : scanString(i + 1, char);
+        if (isQueryArgument && end - i >= 2) keepSql(i, end);
+        i = end;
+      } else if (char === '}' && depth === 0 && interpolation) {
+        return i;
+      } else {
+        if (char === '{') depth++;
+        if (char === '}') depth--;
+        i++;
+      }
+    }
+
+    return i;
+  }
+
+  scanCode(0, false);
+  return { code: code.join(''), sql: sql.join('') };
+}
+
+function maskSource(content: string, isSql: boolean): MaskedSource {
+  if (!isSql) return maskCode(content);
+
+  const sql = stripSqlNoise(content);
+  return { code: sql, sql };
+}
+
+function splitSections(content: string, separateDown: boolean): { up: string; upOffset: number; down: string | null } {
+  if (separateDown) {
+    return { up: content, upOffset: 0, down: null };
+  }
+
+  const upMatch = UP_METHOD.exec(content);
+  const downMatch = DOWN_METHOD.exec(content);
+
+  if (!upMatch) {
+    return { up: content, upOffset: 0, down: downMatch ? content.slice(downMatch.index) : null };
+  }
+
+  const upEnd = downMatch && downMatch.index > upMatch.index ? downMatch.index : content.length;
+  const down = downMatch
+    ? content.slice(downMatch.index, downMatch.index > upMatch.index ? content.length : upMatch.index)
+    : null;
+
+  return { up: content.slice(upMatch.index, upEnd), upOffset: upMatch.index, down };
+}
+
+function isEmptyDown(down: string | null, isMethod: boolean): boolean {
+  if (down === null) return true;
+
+  let stripped = down
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/(\/\/|--).*$/gm, '');
+
+  if (isMethod) {
+    stripped = stripped.replace(DOWN_METHOD, '').replace(/^[^)]*\)\s*(:\s*[^{]+)?/, '');
+  }
+
+  return stripped.replace(/[\s{}();]/g, '') === '';
+}
+
+function matchAll(source: string, pattern: RegExp, rule: LintRuleId, message: (match: RegExpExecArray) => string): Match[] {
+  const matches: Match[] = [];
+  const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(source))) {
+    matches.push({ rule, index: match.index, message: message(match) });
+  }
+
+  return matches;
+}
+
+function findStatements(source: string): Array<{ text: string; index: number }> {
+  const statements: Array<{ text: string; index: number }> = [];
+  let start = 0;
+
+  for (let i = 0; i <= source.length; i++) {
+    if (i === source.length || source[i] === ';') {
+      if (source.slice(start, i).trim()) {
+        statements.push({ text: source.slice(start, i), index: start });
+      }
+      start = i + 1;
+    }
+  }
+
+  return statements;
+}
+
+function unquote(name: string): string {
+  return name.replace(/["'`[\]]/g, '').split('.').pop()!.toLowerCase();
+}
+
+// Splits on commas outside parentheses, e.g. the actions of one ALTER TABLE statement.
+export function splitTopLevel(list: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let i = 0; i < list.length; i++) {
+    if (list[i] === '(') depth++;
+    else if (list[i] === ')') depth--;
+    else if (list[i] === ',' && depth === 0) {
+      parts.push(list.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+
+  parts.push(list.slice(start).trim());
+  return parts.filter(Boolean);
+}
+
+// SQL rules only look at the SQL; the rules for TypeORM's QueryRunner API look at the code.
+function scanUp({ code, sql }: MaskedSource, config: LintConfig): Match[] {
+  const largeTables = config.largeTables?.map(table => table.toLowerCase());
+  const isLarge = (table: string) => !largeTables || largeTables.includes(unquote(table));
+  const matches: Match[] = [
+    ...matchAll(sql, /\bDROP\s+TABLE\s+(?:IF\s+EXISTS\s+)?([\w."`[\]]+)/i, 'drop-table', m => `DROP TABLE ${unquote(m[1])}`),
+    ...matchAll(code, /\.dropTable\s*\(\s*['"`]?([\w.]*)/, 'drop-table', m => `dropTable(${m[1]})`),
+    ...matchAll(sql, /\bDROP\s+COLUMN\s+(?:IF\s+EXISTS\s+)?([\w."`[\]]+)/i, 'drop-column', m => `DROP COLUMN ${unquote(m[1])}`),
+    ...matchAll(code, /\.dropColumns?\s*\(\s*['"`]?([\w.]*)/, 'drop-column', m => `dropColumn on ${m[1] || 'table'}`),
+    ...matchAll(sql, /\bTRUNCATE\b(?:\s+TABLE)?\s*([\w."`[\]]*)/i, 'truncate', m => `TRUNCATE ${unquote(m[1]) || ''}`.trim()),
+    ...matchAll(code, /\.clearTable\s*\(\s*['"`]?([\w.]*)/, 'truncate', m => `clearTable(${m[1]})`)
+  ];
+
+  const createIndex = /\.createIndex\s*\(\s*['"`]?([\w.]+)/g;
+  let call: RegExpExecArray | null;
+  while ((call = createIndex.exec(code))) {
+    if (isLarge(call[1])) {
+      matches.push({ rule: 'non-concurrent-index', index: call.index, message: `createIndex on ${unquote(call[1])} locks writes` });
+    }
+  }
+
+  for (const statement of findStatements(sql)) {
+    const text = statement.text;
+
+    const index = /\bCREATE\s+(?:UNIQUE\s+)?INDEX\b(?!\s+CONCURRENTLY)[\s\S]*?\bON\s+(?:ONLY\s+)?([\w."`[\]]+)/i.exec(text);
+    if (index && isLarge(index[1])) {
+      matches.push({
+        rule: 'non-concurrent-index',
+        index: statement.index + index.index,
+        message: `CREATE INDEX on ${unquote(index[1])} without CONCURRENTLY locks writes`
+      });
+    }
+
+    // Each ADD clause needs its own DEFAULT: one on a sibling column does not cover it.
+    const alterTable = /\bALTER\s+TABLE\s+(?:ONLY\s+)?(?:IF\s+EXISTS\s+)?[\w."`[\]]+\s+/i.exec(text);
+    if (alterTable) {
+      let offset = alterTable.index + alterTable[0].length;
+
+      for (const action of splitTopLevel(text.slice(offset))) {
+        const at = text.indexOf(action, offset);
+        offset = at + action.length;
+
+        const addNotNull = /^ADD\s+(?:COLUMN\s+)?(?:IF\s+NOT\s+EXISTS\s+)?([\w."`[\]]+)[\s\S]*?\bNOT\s+NULL\b/i.exec(action);
+        if (addNotNull && !/\bDEFAULT\b/i.test(action)) {
+          matches.push({
+            rule: 'not-null-without-default',
+            index: statement.index + at,
+            message: `Adds NOT NULL column ${unquote(addNotNull[1])} without a DEFAULT`
+          });
+        }
+      }
+    }
+
+    const setNotNull = /\bALTER\s+(?:COLUMN\s+)?([\w."`[\]]+)\s+SET\s+NOT\s+NULL\b/i.exec(text);
+    if (setNotNull) {
+      matches.push({
+        rule: 'not-null-without-default',
+        index: statement.index + setNotNull.index,
+        message: `Sets NOT NULL on ${unquote(setNotNull[1])}; fails if existing rows contain NULL`
+      });
+    }
+  }
+
+  const tableColumn = /new\s+TableColumn\s*\(\s*\{([^}]*)\}/g;
+  let column: RegExpExecArray | null;
+  while ((column = tableColumn.exec(code))) {
+    if (/isNullable\s*:\s*false/.test(column[1]) && !/\bdefault\s*:/.test(column[1])) {
+      const name = /name\s*:\s*['"`]([^'"`]+)/.exec(column[1])?.[1] ?? 'column';
+      matches.push({ rule: 'not-null-without-default', index: column.index, message: `Adds NOT NULL column ${name} without a default` });
+    }
+  }
+
+  return matches;
+}
+
+function getDisabledRules(content: string): Set<string> | 'all' {
+  const disabled = new Set<string>();
+  let match: RegExpExecArray | null;
+  const regex = new RegExp(DISABLE_COMMENT.source, 'g');
+
+  while ((match = regex.exec(content))) {
+    const rules = match[1].split(/[\s,]+/).filter(Boolean);
+    if (rules.length === 0) return 'all';
+    rules.forEach(rule => disabled.add(rule));
+  }
+
+  return disabled;
+}
+
+function lineAt(content: string, index: number): number {
+  return content.slice(0, index).split('\n').length;
+}
+
+export function lintMigration(source: LintSource, config: LintConfig = {}): LintFinding[] {
+  const disabled = getDisabledRules(source.content);
+  if (disabled === 'all') return [];
+
+  const separateDown = source.downContent !== undefined;
+  const masked = maskSource(source.content, source.sql ?? false);
+  const { up, upOffset, down } = splitSections(masked.code, separateDown);
+  const upSection = { code: up, sql: masked.sql.slice(upOffset, upOffset + up.length) };
+  const matches = scanUp(upSection, config).map(match => ({ ...match, index: match.index + upOffset }));
+
+  if (isEmptyDown(separateDown ? source.downContent ?? null : down, !separateDown)) {
+    matches.push({ rule: 'missing-down', index: -1, message: 'No down migration; this migration cannot be reverted' });
+  }
+
+  const findings: LintFinding[] = [];
+
+  for (const match of matches.sort((a, b) => a.index - b.index)) {
+    const severity = config.rules?.[match.rule] ?? LINT_RULES[match.rule].severity;
+    if (severity === 'off' || disabled.has(match.rule)) continue;
+
+    findings.push({
+      rule: match.rule,
+      severity,
+      message: match.message,
+      line: match.index >= 0 ? lineAt(source.content, match.index) : undefined
+    });
+  }
+
+  return findings;
+}
+
+export function getLintErrors(findings: LintFinding[] | undefined): LintFinding[] {
+  return (findings ?? []).filter(finding => finding.severity === 'error');
+}
@@ -0,0 +1,61 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export class ModuleLoadError extends Error {
+  constructor(message: string, public readonly filePath: string) {
+    super(message);
+    this.name = 'ModuleLoadError';
+  }
+}
+
+function requireTypeScript(filePath: string): typeof import('typescript') {
+  try {
+    return require(require.resolve('typescript', { paths: [path.dirname(filePath), process.cwd(), __dirname] }));
+  } catch {
+    throw new ModuleLoadError(
+      `Loading ${path.basename(filePath)} requires the "typescript" package to be installed`,
+      filePath
+    );
+  }
+}
+
+export function registerTypeScript(filePath: string): void {
+  if (require.extensions['.ts']) return;
+
+  const ts = requireTypeScript(filePath);
+
+  require.extensions['.ts'] = (module, fileName) => {
+    const source = require('fs').readFileSync(fileName, 'utf-8');
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: {
+        module: ts.ModuleKind.CommonJS,
+        target: ts.ScriptTarget.ES2020,
+        esModuleInterop: true,
+        experimentalDecorators: true,
+        emitDecoratorMetadata: true
+      },
+      fileName
+    });
+
+    (module as NodeJS.Module & { _compile(code: string, file: string): void })._compile(outputText, fileName);
+  };
+}
+
+export async function requireFile(filePath: string): Promise<unknown> {
+  await fs.access(filePath);
+
+  if (filePath.endsWith('.ts')) {
+    registerTypeScript(filePath);
+  }
+
+  delete require.cache[require.resolve(filePath)];
+  return require(filePath);
+}
+
+export function getDefaultExport(exported: unknown): unknown {
+  if (exported && typeof exported === 'object' && 'default' in exported) {
+    return (exported as { default: unknown }).default;
+  }
+
+  return exported;
+}
@@ -0,0 +1,93 @@
+import os from 'os';
+import path from 'path';
+import { FileSystem, nodeFileSystem } from './runtime';
+import { LockHolder } from './types';
+
+export const DEFAULT_LOCK_FILE = '.migration-lock.json';
+
+export interface MigrationLock {
+  readonly kind: string;
+  // Resolves to null once the lock is taken, or to the current holder when someone else has it.
+  acquire(holder: LockHolder): Promise<LockHolder | null>;
+  release(holder: LockHolder): Promise<void>;
+  read(): Promise<LockHolder | null>;
+  forceRelease(): Promise<void>;
+}
+
+export function formatLockHolder(holder: LockHolder): string {
+  const operation = holder.operation ? ` (${holder.operation})` : '';
+  return `${holder.user}@${holder.host}${operation} since ${new Date(holder.acquiredAt).toLocaleString()}`;
+}
+
+function isSameHolder(a: LockHolder, b: LockHolder): boolean {
+  return a.host === b.host && a.pid === b.pid && a.acquiredAt === b.acquiredAt;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: unknown) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+export class FileLock implements MigrationLock {
+  readonly kind = 'lock file';
+
+  constructor(readonly filePath: string, private readonly fs: FileSystem = nodeFileSystem) {}
+
+  async acquire(holder: LockHolder): Promise<LockHolder | null> {
+    await this.fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // The holder is written to a temp file and linked into place, so the lock file never exists
+    // half-written and link fails atomically when someone else holds it.
+    const tempPath = `${this.filePath}.${process.pid}.${Date.now().toString(36)}.tmp`;
+    await this.fs.writeFile(tempPath, `${JSON.stringify(holder, null, 2)}\n`, 'utf-8');
+
+    try {
+      await this.fs.link(tempPath, this.filePath);
+      return null;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    } finally {
+      await this.fs.rm(tempPath, { force: true });
+    }
+
+    const current = await this.read();
+    if (!current) return this.acquire(holder);
+
+    // A lock left behind by a crashed run on this machine is taken over rather than reported.
+    if (current.host === os.hostname() && current.pid && !isProcessAlive(current.pid)) {
+      await this.release(current);
+      return this.acquire(holder);
+    }
+
+    return current;
+  }
+
+  async release(holder: LockHolder): Promise<void> {
+    const current = await this.read();
+    if (current && isSameHolder(current, holder)) {
+      await this.forceRelease();
+    }
+  }
+
+  // An unreadable lock file still counts as held; it can only be removed with forceRelease.
+  async read(): Promise<LockHolder | null> {
+    try {
+      return JSON.parse(await this.fs.readFile(this.filePath, 'utf-8')) as LockHolder;
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      if (!(error instanceof SyntaxError)) throw error;
+
+      const stats = await this.fs.stat(this.filePath).catch(() => null);
+      if (!stats) return null;
+      return { user: 'unknown', host: 'unknown', operation: 'unreadable lock file', acquiredAt: new Date(stats.mtimeMs).toISOString() };
+    }
+  }
+
+  async forceRelease(): Promise<void> {
+    await this.fs.rm(this.filePath, { force: true });
+  }
+}
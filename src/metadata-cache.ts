@@ -0,0 +1,91 @@
+import path from 'path';
+import { FileSystem, nodeFileSystem } from './runtime';
+import { LintFinding } from './types';
+
+export const DEFAULT_METADATA_CACHE_FILE = '.migration-cache.json';
+
+const CACHE_VERSION = 2;
+
+export interface FileMetadata {
+  key: string;
+  className?: string;
+  description: string;
+  hash: string;
+  lint: LintFinding[];
+}
+
+interface MetadataCacheData {
+  version: number;
+  settings: string;
+  files: Record<string, FileMetadata>;
+}
+
+// Keeps what loadMigrations extracts from each file, keyed by path and mtime+size (of the file and
+// its down file), so unchanged files are not read again between sessions.
+export class MetadataCache {
+  private data: Promise<MetadataCacheData> | null = null;
+  private dirty = false;
+
+  constructor(
+    readonly filePath: string,
+    private readonly settings: string,
+    private readonly fs: FileSystem = nodeFileSystem
+  ) {}
+
+  static fileKey(stats: { mtimeMs: number; size: number }, downStats?: { mtimeMs: number; size: number } | null): string {
+    const down = downStats ? `${downStats.mtimeMs}:${downStats.size}` : downStats === null ? 'missing' : '';
+    return `${stats.mtimeMs}:${stats.size}:${down}`;
+  }
+
+  async get(filePath: string, key: string): Promise<FileMetadata | null> {
+    const entry = (await this.load()).files[filePath];
+    return entry?.key === key ? entry : null;
+  }
+
+  async set(filePath: string, metadata: FileMetadata): Promise<void> {
+    (await this.load()).files[filePath] = metadata;
+    this.dirty = true;
+  }
+
+  async retain(filePaths: Iterable<string>): Promise<void> {
+    const data = await this.load();
+    const keep = new Set(filePaths);
+
+    for (const filePath of Object.keys(data.files)) {
+      if (!keep.has(filePath)) {
+        delete data.files[filePath];
+        this.dirty = true;
+      }
+    }
+  }
+
+  async save(): Promise<void> {
+    if (!this.dirty || !this.data) return;
+
+    const tempPath = `${this.filePath}.tmp`;
+    await this.fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await this.fs.writeFile(tempPath, JSON.stringify(await this.data), 'utf-8');
+    await this.fs.rename(tempPath, this.filePath);
+    this.dirty = false;
+  }
+
+  private load(): Promise<MetadataCacheData> {
+    if (!this.data) {
+      this.data = this.read();
+    }
+
+    return this.data;
+  }
+
+  private async read(): Promise<MetadataCacheData> {
+    const empty: MetadataCacheData = { version: CACHE_VERSION, settings: this.settings, files: {} };
+
+    try {
+      const data = JSON.parse(await this.fs.readFile(this.filePath, 'utf-8')) as MetadataCacheData;
+      return data.version === CACHE_VERSION && data.settings === this.settings && data.files ? data : empty;
+    } catch {
+      // A missing or unreadable cache only costs a full read.
+      return empty;
+    }
+  }
+}
@@ -0,0 +1,19 @@
+import { MigrationPreview } from './types';
+
+export function formatSqlPreview(previews: MigrationPreview[], header: string[] = []): string {
+  const lines = header.map(line => `-- ${line}`);
+
+  for (const preview of previews) {
+    lines.push('', `-- ${preview.direction === 'up' ? 'Apply' : 'Revert'}: ${preview.migration.name}`);
+
+    if (preview.error) {
+      lines.push(`-- Preview unavailable: ${preview.error}`);
+    } else if (preview.statements.length === 0) {
+      lines.push('-- No statements');
+    } else {
+      lines.push(...preview.statements);
+    }
+  }
+
+  return `${lines.join('\n').trim()}\n`;
+}
@@ -0,0 +1,165 @@
+import { DatabaseInfo, LintFinding, Migration, MigrationFailure } from './types';
+
+export const REPORT_SCHEMA_VERSION = 1;
+
+export type ReportFormat = 'text' | 'json' | 'junit';
+
+export const REPORT_FORMATS: ReportFormat[] = ['text', 'json', 'junit'];
+
+export interface MigrationReportEntry {
+  name: string;
+  timestamp: number;
+  date: string;
+  status: Migration['status'];
+  hash: string | null;
+  appliedHash: string | null;
+  size: string | null;
+  description: string | null;
+  failure: MigrationFailure | null;
+  warnings: string[];
+  lint: LintFinding[];
+}
+
+export interface StatusReport {
+  schemaVersion: number;
+  generatedAt: string;
+  database: {
+    host: string;
+    database: string;
+    connected: boolean;
+    lastCheck: string | null;
+  };
+  summary: {
+    total: number;
+    applied: number;
+    pending: number;
+    failed: number;
+    modified: number;
+    orphaned: number;
+  };
+  migrations: MigrationReportEntry[];
+}
+
+export function buildStatusReport(migrations: Migration[], dbInfo: DatabaseInfo): StatusReport {
+  const count = (status: Migration['status']) => migrations.filter(m => m.status === status).length;
+
+  return {
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    database: {
+      host: dbInfo.host,
+      database: dbInfo.database,
+      connected: dbInfo.connected,
+      lastCheck: dbInfo.lastCheck ? new Date(dbInfo.lastCheck).toISOString() : null
+    },
+    summary: {
+      total: migrations.length,
+      applied: count('applied'),
+      pending: count('pending'),
+      failed: count('failed'),
+      modified: count('modified'),
+      orphaned: count('orphaned')
+    },
+    migrations: migrations.map(migration => ({
+      name: migration.name,
+      timestamp: migration.timestamp,
+      date: new Date(migration.timestamp).toISOString(),
+      status: migration.status,
+      hash: migration.hash ?? null,
+      appliedHash: migration.appliedHash ?? null,
+      size: migration.size ?? null,
+      description: migration.description ?? null,
+      failure: migration.failure ?? null,
+      warnings: migration.warnings ?? [],
+      lint: migration.lint ?? []
+    }))
+  };
+}
+
+export function formatJsonReport(report: StatusReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function failureMessage(failure: MigrationFailure | null): string {
+  if (!failure) return 'Migration failed';
+  return `Migration failed while ${failure.direction === 'up' ? 'applying' : 'reverting'} (exit code ${failure.exitCode ?? 'n/a'})`;
+}
+
+export function formatJUnitReport(report: StatusReport): string {
+  const suiteName = `migrations (${report.database.database}@${report.database.host})`;
+  const cases: string[] = [];
+  let failures = 0;
+  let errors = 0;
+
+  if (!report.database.connected) {
+    errors++;
+    cases.push([
+      `    <testcase classname="database" name="connection">`,
+      `      <error type="disconnected" message="Could not fetch migration status"/>`,
+      `    </testcase>`
+    ].join('\n'));
+  }
+
+  for (const migration of report.migrations) {
+    const attributes = `classname="migrations" name="${escapeXml(migration.name)}"`;
+    const details = escapeXml([
+      `timestamp: ${migration.timestamp}`,
+      `hash: ${migration.hash ?? 'n/a'}`,
+      `size: ${migration.size ?? 'n/a'}`,
+      `description: ${migration.description ?? 'n/a'}`,
+      ...(migration.failure ? ['', migration.failure.stderr] : [])
+    ].join('\n'));
+
+    if (migration.status === 'pending') {
+      failures++;
+      cases.push([
+        `    <testcase ${attributes}>`,
+        `      <failure type="pending" message="Migration has not been applied">${details}</failure>`,
+        `    </testcase>`
+      ].join('\n'));
+    } else if (migration.status === 'modified') {
+      failures++;
+      cases.push([
+        `    <testcase ${attributes}>`,
+        `      <failure type="modified" message="Migration file changed after it was applied (applied hash ${migration.appliedHash ?? 'n/a'})">${details}</failure>`,
+        `    </testcase>`
+      ].join('\n'));
+    } else if (migration.status === 'orphaned') {
+      errors++;
+      cases.push([
+        `    <testcase ${attributes}>`,
+        `      <error type="orphaned" message="Migration is applied in the database but its file is missing">${details}</error>`,
+        `    </testcase>`
+      ].join('\n'));
+    } else if (migration.status === 'failed') {
+      errors++;
+      cases.push([
+        `    <testcase ${attributes}>`,
+        `      <error type="failed" message="${escapeXml(failureMessage(migration.failure))}">${details}</error>`,
+        `    </testcase>`
+      ].join('\n'));
+    } else {
+      cases.push(`    <testcase ${attributes}/>`);
+    }
+  }
+
+  const tests = cases.length;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="migration-manager" tests="${tests}" failures="${failures}" errors="${errors}">`,
+    `  <testsuite name="${escapeXml(suiteName)}" tests="${tests}" failures="${failures}" errors="${errors}" timestamp="${report.generatedAt}">`,
+    ...cases,
+    '  </testsuite>',
+    '</testsuites>'
+  ].join('\n');
+}
@@ -0,0 +1,93 @@
+import { ChildProcess, exec, spawn } from 'child_process';
+import { promises as fs } from 'fs';
+
+// The subset of fs.promises used by the core, so tests can swap in an in-memory filesystem.
+export interface FileSystem {
+  access(filePath: string): Promise<void>;
+  readdir(dirPath: string): Promise<string[]>;
+  readFile(filePath: string, encoding: 'utf-8'): Promise<string>;
+  writeFile(filePath: string, data: string, options: 'utf-8' | { encoding?: 'utf-8'; flag?: string }): Promise<void>;
+  appendFile(filePath: string, data: string, encoding: 'utf-8'): Promise<void>;
+  rename(oldPath: string, newPath: string): Promise<void>;
+  link(existingPath: string, newPath: string): Promise<void>;
+  mkdir(dirPath: string, options: { recursive: true }): Promise<unknown>;
+  stat(filePath: string): Promise<{ mtimeMs: number; birthtimeMs: number; size: number }>;
+  rm(filePath: string, options: { force: true }): Promise<void>;
+}
+
+export const nodeFileSystem: FileSystem = fs;
+
+export interface CommandProcess {
+  readonly stdout: { on(event: 'data', listener: (data: Buffer | string) => void): unknown };
+  readonly stderr: { on(event: 'data', listener: (data: Buffer | string) => void): unknown };
+  on(event: 'close', listener: (code: number | null, signal: NodeJS.Signals | null) => void): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+  // Signals the command and everything it started.
+  kill(signal: NodeJS.Signals): void;
+}
+
+export interface ReadOptions {
+  env: NodeJS.ProcessEnv;
+  timeout: number;
+  signal?: AbortSignal;
+}
+
+export interface ProcessRunner {
+  spawn(command: string, env: NodeJS.ProcessEnv): CommandProcess;
+  read(command: string, options: ReadOptions): Promise<string>;
+}
+
+class ShellProcess implements CommandProcess {
+  constructor(private readonly child: ChildProcess) {}
+
+  get stdout() {
+    return this.child.stdout!;
+  }
+
+  get stderr() {
+    return this.child.stderr!;
+  }
+
+  on(event: 'close', listener: (code: number | null, signal: NodeJS.Signals | null) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+  on(
+    event: 'close' | 'error',
+    listener: ((code: number | null, signal: NodeJS.Signals | null) => void) | ((error: Error) => void)
+  ): this {
+    if (event === 'close') {
+      this.child.on('close', listener as (code: number | null, signal: NodeJS.Signals | null) => void);
+    } else {
+      this.child.on('error', listener as (error: Error) => void);
+    }
+    return this;
+  }
+
+  kill(signal: NodeJS.Signals): void {
+    try {
+      process.kill(-this.child.pid!, signal);
+    } catch {
+      this.child.kill(signal);
+    }
+  }
+}
+
+export const shellRunner: ProcessRunner = {
+  spawn(command, env) {
+    // Run in its own process group so a cancel reaches the command, not just the wrapping shell.
+    return new ShellProcess(spawn('sh', ['-c', command], { env, stdio: ['pipe', 'pipe', 'pipe'], detached: true }));
+  },
+
+  read(command, { env, timeout, signal }) {
+    return new Promise((resolve, reject) => {
+      exec(command, { encoding: 'utf-8', timeout, env, signal }, (error, stdout) => {
+        if (!error) {
+          resolve(stdout);
+        } else if (error.killed && !signal?.aborted) {
+          reject(new Error(`Command timed out after ${Math.round(timeout / 1000)}s: ${command}`));
+        } else {
+          reject(error);
+        }
+      });
+    });
+  }
+};
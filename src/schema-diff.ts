@@ -0,0 +1,161 @@
+import { UP_METHOD, DOWN_METHOD, splitTopLevel } from './lint';
+
+export type SchemaChangeKind = 'added' | 'removed' | 'altered';
+
+export type SchemaObjectType = 'table' | 'column' | 'index' | 'constraint' | 'other';
+
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  objectType: SchemaObjectType;
+  name: string;
+  detail?: string;
+}
+
+export interface TableDiff {
+  table: string;
+  changes: SchemaChange[];
+}
+
+export const UNKNOWN_TABLE = '(no table)';
+
+const IDENTIFIER = String.raw`((?:[\`"\[]?[\w$]+[\`"\]]?\.)?[\`"\[]?[\w$]+[\`"\]]?)`;
+
+function unquote(name: string): string {
+  return name.replace(/[`"[\]]/g, '');
+}
+
+function unescapeLiteral(literal: string): string {
+  return literal.slice(1, -1).replace(/\\(.)/g, '$1');
+}
+
+// TypeORM-generated migrations pass each statement as a string literal to queryRunner.query();
+// plain SQL files are split on semicolons.
+export function extractUpQueries(content: string, isSql: boolean): string[] {
+  if (isSql) {
+    return content
+      .replace(/--.*$/gm, '')
+      .split(';')
+      .map(statement => statement.trim())
+      .filter(Boolean);
+  }
+
+  const up = UP_METHOD.exec(content);
+  if (!up) return [];
+
+  const down = DOWN_METHOD.exec(content.slice(up.index + 1));
+  const section = content.slice(up.index, down ? up.index + 1 + down.index : content.length);
+  const queries: string[] = [];
+  const call = /\.query\s*\(\s*(`(?:[^`\\]|\\.)*`|"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = call.exec(section))) {
+    queries.push(unescapeLiteral(match[1]).trim());
+  }
+
+  return queries;
+}
+
+function describeDefinition(definition: string): SchemaChange {
+  const constraint = /^CONSTRAINT\s+(\S+)\s+([\s\S]*)$/i.exec(definition);
+  if (constraint) {
+    return { kind: 'added', objectType: 'constraint', name: unquote(constraint[1]), detail: constraint[2] };
+  }
+
+  if (/^(PRIMARY\s+KEY|UNIQUE|FOREIGN\s+KEY|CHECK)\b/i.test(definition)) {
+    return { kind: 'added', objectType: 'constraint', name: definition.split('(')[0].trim(), detail: definition };
+  }
+
+  const column = /^(\S+)\s+([\s\S]*)$/.exec(definition);
+  return { kind: 'added', objectType: 'column', name: unquote(column?.[1] ?? definition), detail: column?.[2] };
+}
+
+function parseAlterAction(action: string): SchemaChange {
+  let match: RegExpExecArray | null;
+
+  if ((match = /^ADD\s+CONSTRAINT\s+(\S+)\s+([\s\S]*)$/i.exec(action))) {
+    return { kind: 'added', objectType: 'constraint', name: unquote(match[1]), detail: match[2] };
+  }
+  if ((match = /^ADD\s+(?:COLUMN\s+)?(\S+)\s+([\s\S]*)$/i.exec(action))) {
+    return { kind: 'added', objectType: 'column', name: unquote(match[1]), detail: match[2] };
+  }
+  if ((match = /^DROP\s+CONSTRAINT\s+(?:IF\s+EXISTS\s+)?(\S+)/i.exec(action))) {
+    return { kind: 'removed', objectType: 'constraint', name: unquote(match[1]) };
+  }
+  if ((match = /^DROP\s+FOREIGN\s+KEY\s+(\S+)/i.exec(action))) {
+    return { kind: 'removed', objectType: 'constraint', name: unquote(match[1]) };
+  }
+  if ((match = /^DROP\s+(?:INDEX|KEY)\s+(\S+)/i.exec(action))) {
+    return { kind: 'removed', objectType: 'index', name: unquote(match[1]) };
+  }
+  if ((match = /^DROP\s+(?:COLUMN\s+)?(?:IF\s+EXISTS\s+)?(\S+)/i.exec(action))) {
+    return { kind: 'removed', objectType: 'column', name: unquote(match[1]) };
+  }
+  if ((match = /^RENAME\s+COLUMN\s+(\S+)\s+TO\s+(\S+)/i.exec(action))) {
+    return { kind: 'altered', objectType: 'column', name: unquote(match[1]), detail: `renamed to ${unquote(match[2])}` };
+  }
+  if ((match = /^(?:ALTER|MODIFY|CHANGE)\s+(?:COLUMN\s+)?(\S+)\s*([\s\S]*)$/i.exec(action))) {
+    return { kind: 'altered', objectType: 'column', name: unquote(match[1]), detail: match[2] };
+  }
+
+  return { kind: 'altered', objectType: 'other', name: action.split(/\s+/).slice(0, 2).join(' '), detail: action };
+}
+
+function parseStatement(statement: string): Array<{ table: string; change: SchemaChange }> {
+  const sql = statement.replace(/\s+/g, ' ').trim();
+  let match: RegExpExecArray | null;
+
+  if ((match = new RegExp(String.raw`^CREATE TABLE (?:IF NOT EXISTS )?${IDENTIFIER}\s*\(([\s\S]*)\)`, 'i').exec(sql))) {
+    const table = unquote(match[1]);
+    return [
+      { table, change: { kind: 'added', objectType: 'table', name: table } },
+      ...splitTopLevel(match[2]).map(definition => ({ table, change: describeDefinition(definition) }))
+    ];
+  }
+
+  if ((match = new RegExp(String.raw`^DROP TABLE (?:IF EXISTS )?${IDENTIFIER}`, 'i').exec(sql))) {
+    const table = unquote(match[1]);
+    return [{ table, change: { kind: 'removed', objectType: 'table', name: table } }];
+  }
+
+  if ((match = new RegExp(String.raw`^ALTER TABLE (?:ONLY )?(?:IF EXISTS )?${IDENTIFIER} ([\s\S]*)$`, 'i').exec(sql))) {
+    const table = unquote(match[1]);
+    const actions = match[2];
+
+    if ((match = /^RENAME TO (\S+)/i.exec(actions))) {
+      return [{ table, change: { kind: 'altered', objectType: 'table', name: table, detail: `renamed to ${unquote(match[1])}` } }];
+    }
+
+    return splitTopLevel(actions).map(action => ({ table, change: parseAlterAction(action) }));
+  }
+
+  if ((match = new RegExp(String.raw`^CREATE (UNIQUE )?INDEX (?:CONCURRENTLY )?(?:IF NOT EXISTS )?${IDENTIFIER} ON ${IDENTIFIER}\s*(.*)$`, 'i').exec(sql))) {
+    return [{
+      table: unquote(match[3]),
+      change: { kind: 'added', objectType: 'index', name: unquote(match[2]), detail: `${match[1] ? 'UNIQUE ' : ''}${match[4]}`.trim() }
+    }];
+  }
+
+  if ((match = new RegExp(String.raw`^DROP INDEX (?:CONCURRENTLY )?(?:IF EXISTS )?${IDENTIFIER}(?: ON ${IDENTIFIER})?`, 'i').exec(sql))) {
+    return [{
+      table: match[2] ? unquote(match[2]) : UNKNOWN_TABLE,
+      change: { kind: 'removed', objectType: 'index', name: unquote(match[1]) }
+    }];
+  }
+
+  return [{ table: UNKNOWN_TABLE, change: { kind: 'altered', objectType: 'other', name: sql.split(' ').slice(0, 3).join(' '), detail: sql } }];
+}
+
+export function diffQueries(queries: string[]): TableDiff[] {
+  const tables = new Map<string, SchemaChange[]>();
+
+  for (const query of queries) {
+    for (const { table, change } of parseStatement(query)) {
+      const name = table.replace(/^public\./, '');
+      tables.set(name, [...(tables.get(name) ?? []), change]);
+    }
+  }
+
+  return [...tables.entries()]
+    .sort(([a], [b]) => (a === UNKNOWN_TABLE ? 1 : b === UNKNOWN_TABLE ? -1 : a.localeCompare(b)))
+    .map(([table, changes]) => ({ table, changes }));
+}
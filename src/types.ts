@@ -0,0 +1,203 @@
+import { MigrationAdapterFactory } from './adapters/types';
+
+export interface MigrationFailure {
+  direction: 'up' | 'down';
+  exitCode: number | null;
+  stderr: string;
+  failedAt: number;
+}
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+export type LintRuleId =
+  | 'drop-table'
+  | 'drop-column'
+  | 'not-null-without-default'
+  | 'non-concurrent-index'
+  | 'missing-down'
+  | 'truncate';
+
+export interface LintFinding {
+  rule: LintRuleId;
+  severity: LintSeverity;
+  message: string;
+  line?: number;
+}
+
+export interface LintConfig {
+  rules?: Partial<Record<LintRuleId, LintSeverity | 'off'>>;
+  largeTables?: string[];
+}
+
+export interface Migration {
+  id?: number;
+  name: string;
+  className?: string;
+  timestamp: number;
+  status: 'pending' | 'applied' | 'failed' | 'modified' | 'orphaned';
+  description?: string;
+  size?: string;
+  hash?: string;
+  appliedHash?: string;
+  failure?: MigrationFailure;
+  warnings?: string[];
+  lint?: LintFinding[];
+}
+
+export interface DatabaseInfo {
+  host: string;
+  database: string;
+  connected: boolean;
+  migrationsCount: number;
+  pendingCount: number;
+  lastCheck: number;
+}
+
+export interface MigrationCommands {
+  showStatus: string;
+  migrateUp: string;
+  migrateDown: string;
+  create: string;
+  generate: string;
+}
+
+export interface DatabaseConfig {
+  host?: string;
+  name?: string;
+}
+
+export interface SqlAdapterConfig {
+  execute: string;
+  query: string;
+  table?: string;
+}
+
+export type HookName = 'beforeUp' | 'afterUp' | 'beforeDown' | 'afterDown' | 'onFailure';
+
+export interface HookContext {
+  hook: HookName;
+  profile: string | null;
+  host: string;
+  database: string;
+  migrations: string[];
+  result?: CommandResult;
+}
+
+export type MigrationHook = string | ((context: HookContext) => void | Promise<void>);
+
+export type MigrationHooks = Partial<Record<HookName, MigrationHook>>;
+
+export interface MigrationProfile {
+  commands?: Partial<MigrationCommands>;
+  database?: DatabaseConfig;
+  dataSource?: string;
+  adapter?: string;
+  env?: Record<string, string>;
+  protected?: boolean;
+  hooks?: MigrationHooks;
+}
+
+export interface MigrationShellConfig {
+  migrationsDir?: string;
+  autoRefreshInterval?: number;
+  watch?: boolean;
+  statusTimeout?: number;
+  cancelGracePeriod?: number;
+  lockFile?: string;
+  hooks?: MigrationHooks;
+  commands?: Partial<MigrationCommands>;
+  database?: DatabaseConfig;
+  dataSource?: string;
+  adapter?: string;
+  adapters?: Record<string, MigrationAdapterFactory | string>;
+  sql?: SqlAdapterConfig;
+  profiles?: Record<string, MigrationProfile>;
+  defaultProfile?: string;
+  historyFile?: string;
+  checksumFile?: string;
+  metadataCacheFile?: string;
+  lint?: LintConfig;
+}
+
+export interface CommandResult {
+  success: boolean;
+  code: number | null;
+  stdout: string;
+  stderr: string;
+  cancelled?: boolean;
+}
+
+export interface MigrationRunResult extends CommandResult {
+  // Migrations whose applied state changed during the run (or that were created by it).
+  migrations: string[];
+}
+
+export interface MigrationPlanStep {
+  migration: Migration;
+  direction: 'up' | 'down';
+}
+
+export interface MigrationPlan {
+  target: Migration;
+  steps: MigrationPlanStep[];
+  strategy: 'single' | 'all' | 'sequential';
+}
+
+export interface PlanStepResult extends MigrationPlanStep {
+  result: CommandResult;
+}
+
+export interface MigrationPreview extends MigrationPlanStep {
+  statements: string[];
+  error?: string;
+}
+
+export type HistoryOperation = 'up' | 'down' | 'create' | 'generate';
+
+export interface HistoryEntry {
+  id: string;
+  operation: HistoryOperation;
+  description: string;
+  profile: string | null;
+  host: string;
+  database: string;
+  user: string;
+  gitUser: string | null;
+  commands: string[];
+  startedAt: string;
+  durationMs: number;
+  exitCode: number | null;
+  success: boolean;
+  cancelled?: boolean;
+  migrations: string[];
+  output: string;
+}
+
+export type LogType = 'info' | 'success' | 'warning' | 'error';
+
+export type Logger = (message: string, type: LogType) => void;
+
+export interface LockHolder {
+  user: string;
+  host: string;
+  pid?: number;
+  profile?: string | null;
+  operation?: string;
+  acquiredAt: string;
+}
+
+export interface RunningCommand {
+  command: string;
+  description: string;
+  startedAt: number;
+  cancelRequestedAt?: number;
+}
+
+export interface MigrationEvents {
+  migrationsLoaded: [migrations: Migration[]];
+  statusChanged: [info: DatabaseInfo];
+  commandStarted: [command: RunningCommand];
+  commandOutput: [line: string, stream: 'stdout' | 'stderr', command: RunningCommand];
+  commandFinished: [command: RunningCommand, result: CommandResult];
+  migrationFailed: [migration: Migration, failure: MigrationFailure];
+}
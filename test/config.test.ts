@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigError, findConfigFile, loadConfig, validateConfig } from '../src/config';
+
+describe('validateConfig', () => {
+  it('accepts a complete config', () => {
+    const config = {
+      migrationsDir: 'db/migrations',
+      adapter: 'sql',
+      sql: { execute: 'psql -f {file}', query: 'psql -tAc {sql}' },
+      defaultProfile: 'staging',
+      profiles: { staging: { database: { name: 'app_staging' }, protected: true } },
+      lint: { rules: { 'drop-column': 'error' }, largeTables: ['users'] }
+    };
+
+    expect(validateConfig(config)).toBe(config);
+  });
+
+  it('lists every problem with its path', () => {
+    let error: unknown;
+    try {
+      validateConfig({ migrationsDir: 3, lint: { rules: { 'drop-table': 'fatal' } } }, '/project/config.json');
+    } catch (caught: unknown) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    const { filePath, errors, message } = error as ConfigError;
+    expect(filePath).toBe('/project/config.json');
+    expect(errors).toEqual([expect.stringMatching(/^config\.migrationsDir: /), expect.stringMatching(/^config\.lint\.rules\.drop-table: /)]);
+    expect(message).toContain('Invalid migration manager configuration in /project/config.json:');
+  });
+
+  it('rejects an undefined default profile, unknown adapters and a sql adapter without its section', () => {
+    expect(() => validateConfig({ defaultProfile: 'prod', profiles: {} })).toThrow(
+      'config.defaultProfile: profile "prod" is not defined in config.profiles'
+    );
+    expect(() => validateConfig({ adapter: 'flyway' })).toThrow('config.adapter: unknown adapter "flyway"');
+    expect(() => validateConfig({ profiles: { local: { adapter: 'sql' } } })).toThrow(
+      'config.profiles.local.adapter: the "sql" adapter requires a config.sql section'
+    );
+  });
+});
+
+describe('config discovery', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'migration-manager-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('finds the nearest config file, preferring JSON over package.json', async () => {
+    const nested = path.join(dir, 'packages', 'api');
+    await fs.mkdir(nested, { recursive: true });
+    await fs.writeFile(path.join(dir, 'package.json'), JSON.stringify({ migrationManager: {} }));
+
+    expect(await findConfigFile(nested)).toBe(path.join(dir, 'package.json'));
+
+    await fs.writeFile(path.join(dir, 'migration-manager.config.json'), '{}');
+    expect(await findConfigFile(nested)).toBe(path.join(dir, 'migration-manager.config.json'));
+  });
+
+  it('ignores package.json files without a migrationManager key', async () => {
+    await fs.writeFile(path.join(dir, 'package.json'), JSON.stringify({ name: 'app' }));
+
+    expect(await findConfigFile(dir)).not.toBe(path.join(dir, 'package.json'));
+  });
+
+  it('loads a config and resolves its paths against the config file', async () => {
+    await fs.writeFile(path.join(dir, 'migration-manager.config.json'), JSON.stringify({
+      migrationsDir: 'db/migrations',
+      historyFile: '.history.jsonl',
+      profiles: { local: { dataSource: './data-source.ts' } }
+    }));
+
+    const loaded = await loadConfig({ cwd: dir });
+
+    expect(loaded?.filePath).toBe(path.join(dir, 'migration-manager.config.json'));
+    expect(loaded?.config).toMatchObject({
+      migrationsDir: path.join(dir, 'db/migrations'),
+      historyFile: path.join(dir, '.history.jsonl'),
+      profiles: { local: { dataSource: path.join(dir, 'data-source.ts') } }
+    });
+  });
+
+  it('loads a JS config that exports a function', async () => {
+    await fs.writeFile(path.join(dir, 'migration-manager.config.js'), `
+      module.exports = async () => ({ migrationsDir: 'migrations', defaultProfile: 'ci', profiles: { ci: {} } });
+    `);
+
+    const loaded = await loadConfig({ cwd: dir });
+
+    expect(loaded?.config).toMatchObject({ migrationsDir: path.join(dir, 'migrations'), defaultProfile: 'ci' });
+  });
+
+  it('reports a missing explicit config file and unparsable JSON', async () => {
+    await expect(loadConfig({ cwd: dir, configPath: 'missing.json' })).rejects.toThrow(
+      `Config file not found: ${path.join(dir, 'missing.json')}`
+    );
+
+    await fs.writeFile(path.join(dir, 'broken.json'), '{ "migrationsDir": ');
+    await expect(loadConfig({ cwd: dir, configPath: 'broken.json' })).rejects.toThrow(ConfigError);
+  });
+});
@@ -0,0 +1,540 @@
+import path from 'path';
+import { MigrationAdapter } from '../src/adapters';
+import { AppliedMigrationRecord } from '../src/datasource';
+import { CommandResult, Migration } from '../src/types';
+import { addMigration, createCore, MemoryFileSystem, migrationSource, MIGRATIONS_DIR, PROJECT_DIR } from './helpers';
+
+const statuses = (migrations: Migration[]) => Object.fromEntries(migrations.map(m => [m.name, m.status]));
+const find = (migrations: Migration[], name: string) => migrations.find(m => m.name === name)!;
+const LOCK_FILE = path.join(PROJECT_DIR, '.migration-lock.json');
+
+describe('status reconciliation', () => {
+  it('marks migrations applied from the status command', async () => {
+    const { core, fs, cli } = createCore();
+    addMigration(fs, '1000-create-users');
+    addMigration(fs, '2000-create-posts');
+    addMigration(fs, '3000-add-index');
+    cli.applied.push('1000-create-users', '2000-create-posts');
+
+    const migrations = await core.loadMigrations();
+
+    expect(statuses(migrations)).toEqual({
+      '1000-create-users.ts': 'applied',
+      '2000-create-posts.ts': 'applied',
+      '3000-add-index.ts': 'pending'
+    });
+    expect(find(migrations, '1000-create-users.ts').className).toBe('CreateUsers1000');
+    expect(core.dbInfo).toMatchObject({ connected: true, migrationsCount: 3, pendingCount: 1 });
+  });
+
+  it('picks up changes in the database on refresh', async () => {
+    const { core, fs, cli } = createCore();
+    addMigration(fs, '1000-create-users');
+    await core.loadMigrations();
+
+    cli.applied.push('1000-create-users');
+
+    expect(statuses(await core.refreshStatus())).toEqual({ '1000-create-users.ts': 'applied' });
+  });
+
+  it('leaves every migration pending when the status command fails', async () => {
+    const { core, fs, cli, logs } = createCore({ commands: { showStatus: 'missing-binary' } });
+    addMigration(fs, '1000-create-users');
+    cli.applied.push('1000-create-users');
+
+    const migrations = await core.loadMigrations();
+
+    expect(statuses(migrations)).toEqual({ '1000-create-users.ts': 'pending' });
+    expect(core.dbInfo.connected).toBe(false);
+    expect(logs.some(log => log.message.startsWith('Could not fetch migration status'))).toBe(true);
+  });
+
+  it('warns about pending migrations older than the latest applied one', async () => {
+    const { core, fs, cli } = createCore();
+    addMigration(fs, '1000-create-users');
+    addMigration(fs, '2000-create-posts');
+    cli.applied.push('2000-create-posts');
+
+    const migrations = await core.loadMigrations();
+
+    expect(find(migrations, '1000-create-users.ts').warnings).toEqual([
+      'Older than the latest applied migration 2000-create-posts.ts; it would run out of order'
+    ]);
+  });
+});
+
+describe('orphans and ambiguous matches', () => {
+  it('lists applied migrations without a file as orphaned', async () => {
+    const { core, fs, cli } = createCore();
+    addMigration(fs, '1000-create-users');
+    cli.applied.push('1000-create-users', '1500-deleted-branch');
+
+    const migrations = await core.loadMigrations();
+    const orphan = find(migrations, '1500-deleted-branch');
+
+    expect(orphan).toMatchObject({ status: 'orphaned', timestamp: 1500 });
+    expect(migrations.map(m => m.name)).toEqual(['1000-create-users.ts', '1500-deleted-branch']);
+    await expect(core.planRevert(orphan)).rejects.toThrow('1500-deleted-branch has no migration file');
+  });
+
+  it('prefers the file whose name matches the applied record exactly', async () => {
+    const { core, fs, cli } = createCore();
+    addMigration(fs, '1000-create-users');
+    addMigration(fs, '1000-create-accounts');
+    cli.applied.push('1000-create-users');
+
+    const migrations = await core.loadMigrations();
+
+    expect(statuses(migrations)).toEqual({
+      '1000-create-accounts.ts': 'pending',
+      '1000-create-users.ts': 'applied'
+    });
+    expect(migrations.every(m => !m.warnings)).toBe(true);
+  });
+
+  it('warns on every file when the applied record matches several', async () => {
+    const { core, fs, cli, logs } = createCore();
+    addMigration(fs, '1000-create-users');
+    addMigration(fs, '1000-create-accounts');
+    cli.applied.push('1000-squashed');
+
+    const migrations = await core.loadMigrations();
+    const warning = 'Applied migration 1000-squashed matches 2 files: 1000-create-accounts.ts, 1000-create-users.ts';
+
+    expect(statuses(migrations)).toEqual({
+      '1000-create-accounts.ts': 'applied',
+      '1000-create-users.ts': 'applied'
+    });
+    expect(migrations.map(m => m.warnings)).toEqual([[warning], [warning]]);
+    expect(logs).toContainEqual({ message: warning, type: 'warning' });
+  });
+});
+
+describe('checksum drift', () => {
+  const CHECKSUM_FILE = path.join(PROJECT_DIR, '.migration-checksums.json');
+
+  it('flags applied migrations whose file changed since they were applied', async () => {
+    const { core, fs } = createCore();
+    addMigration(fs, '1000-create-users');
+
+    await core.migrateUp();
+    const [original] = await core.loadMigrations();
+    expect(original).toMatchObject({ status: 'applied', appliedHash: original.hash });
+
+    const file = path.join(MIGRATIONS_DIR, '1000-create-users.ts');
+    fs.put(file, migrationSource('CreateUsers1000', 'CREATE TABLE users (id int, email text)'));
+    const [edited] = await core.updateMigrationFiles(['1000-create-users.ts']);
+
+    expect(edited).toMatchObject({ status: 'modified', appliedHash: original.hash });
+    expect(edited.hash).not.toBe(original.hash);
+
+    fs.put(file, migrationSource('CreateUsers1000'));
+    const [restored] = await core.updateMigrationFiles(['1000-create-users.ts']);
+
+    expect(restored.status).toBe('applied');
+  });
+
+  it('never records a checksum from a status check', async () => {
+    const { core, fs, cli } = createCore();
+    addMigration(fs, '1000-create-users');
+    cli.applied.push('1000-create-users');
+
+    await core.loadMigrations();
+    fs.put(path.join(MIGRATIONS_DIR, '1000-create-users.ts'), migrationSource('CreateUsers1000', 'DROP TABLE users'));
+    const [edited] = await core.updateMigrationFiles(['1000-create-users.ts']);
+
+    expect(edited.status).toBe('applied');
+    expect(edited.appliedHash).toBeUndefined();
+    expect(fs.read(CHECKSUM_FILE)).toBeUndefined();
+  });
+
+  it('forgets the checksum once a run reverts the migration', async () => {
+    const { core, fs } = createCore();
+    addMigration(fs, '1000-create-users');
+    await core.migrateUp();
+
+    await core.migrateDown();
+    expect(await core.checksums.read('default')).toEqual({});
+
+    fs.put(path.join(MIGRATIONS_DIR, '1000-create-users.ts'), migrationSource('CreateUsers1000', 'CREATE TABLE users (id int)'));
+    await core.updateMigrationFiles(['1000-create-users.ts']);
+    await core.migrateUp();
+    const [reapplied] = await core.loadMigrations();
+
+    expect(reapplied.status).toBe('applied');
+  });
+
+  it('records checksums for the steps a plan applies', async () => {
+    const { core, fs } = createCore();
+    addMigration(fs, '1000-create-users');
+    addMigration(fs, '2000-create-posts');
+
+    await core.executePlan(await core.planUp());
+
+    expect(Object.keys(await core.checksums.read('default'))).toEqual(['1000-create-users.ts', '2000-create-posts.ts']);
+  });
+
+  it('keeps checksums separate per profile', async () => {
+    const { core, fs } = createCore({ profiles: { dev: {}, prod: {} } });
+    addMigration(fs, '1000-create-users');
+
+    core.useProfile('dev');
+    await core.migrateUp();
+
+    expect(Object.keys(await core.checksums.read('dev'))).toEqual(['1000-create-users.ts']);
+    expect(await core.checksums.read('prod')).toEqual({});
+  });
+});
+
+describe('failure tracking', () => {
+  it('marks the migration named in the output as failed until it is applied', async () => {
+    const { core, fs, cli } = createCore();
+    addMigration(fs, '1000-create-users');
+    addMigration(fs, '2000-create-posts');
+    cli.failing.add('2000-create-posts');
+
+    const failed: Migration[] = [];
+    core.on('migrationFailed', migration => failed.push(migration));
+
+    const result = await core.migrateUp();
+
+    expect(result).toMatchObject({ success: false, code: 1, migrations: ['1000-create-users.ts'] });
+    expect(failed.map(m => m.name)).toEqual(['2000-create-posts.ts']);
+
+    core.cache.invalidate('migrations');
+    const afterFailure = await core.loadMigrations();
+    expect(statuses(afterFailure)).toEqual({
+      '1000-create-users.ts': 'applied',
+      '2000-create-posts.ts': 'failed'
+    });
+    expect(find(afterFailure, '2000-create-posts.ts').failure).toMatchObject({
+      direction: 'up',
+      exitCode: 1,
+      stderr: 'Migration "2000-create-posts" failed: relation already exists'
+    });
+
+    cli.failing.clear();
+    expect(await core.migrateUp()).toMatchObject({ success: true, migrations: ['2000-create-posts.ts'] });
+
+    core.cache.invalidate('migrations');
+    const fixed = find(await core.loadMigrations(), '2000-create-posts.ts');
+    expect(fixed.status).toBe('applied');
+    expect(fixed.failure).toBeUndefined();
+  });
+
+  it('falls back to the first migration still pending when the output names none', async () => {
+    const { core, fs, cli } = createCore();
+    addMigration(fs, '1000-create-users');
+    addMigration(fs, '2000-create-posts');
+    core.commands.migrateUp = 'migrate:up:quiet';
+
+    await core.migrateUp();
+
+    core.cache.invalidate('migrations');
+    expect(statuses(await core.loadMigrations())).toEqual({
+      '1000-create-users.ts': 'failed',
+      '2000-create-posts.ts': 'pending'
+    });
+  });
+
+  it('records each run in the history with the git user from the runner', async () => {
+    const { core, fs, cli } = createCore();
+    addMigration(fs, '1000-create-users');
+    cli.gitUser = { name: 'Ada Lovelace', email: 'ada@example.com' };
+
+    await core.migrateUp();
+    const [entry] = await core.history.read();
+
+    expect(entry).toMatchObject({
+      operation: 'up',
+      gitUser: 'Ada Lovelace <ada@example.com>',
+      commands: ['migrate:up'],
+      success: true,
+      migrations: ['1000-create-users.ts']
+    });
+    expect(cli.runner.reads).toEqual(expect.arrayContaining(['git config user.name', 'git config user.email']));
+  });
+
+  it('queries the status once before and once after a run', async () => {
+    const commands: string[] = [];
+    const { core, fs } = createCore({}, { onRun: command => commands.push(command) });
+    addMigration(fs, '1000-create-users');
+    addMigration(fs, '2000-create-posts');
+
+    const result = await core.migrateUp();
+
+    expect(result.migrations).toEqual(['1000-create-users.ts', '2000-create-posts.ts']);
+    expect(commands.filter(command => command === 'migration:show')).toHaveLength(2);
+  });
+});
+
+describe('plan builders', () => {
+  async function setup() {
+    const harness = createCore();
+    for (const name of ['1000-create-users', '2000-create-posts', '3000-add-index', '4000-add-comments']) {
+      addMigration(harness.fs, name);
+    }
+    harness.cli.applied.push('1000-create-users', '2000-create-posts');
+    const migrations = await harness.core.loadMigrations();
+    return { ...harness, migrations };
+  }
+
+  const stepNames = (plan: { steps: Array<{ migration: Migration; direction: string }> }) =>
+    plan.steps.map(step => `${step.direction} ${step.migration.name}`);
+
+  it('plans every pending migration for up', async () => {
+    const { core } = await setup();
+    const plan = await core.planUp();
+
+    expect(plan.strategy).toBe('all');
+    expect(plan.target.name).toBe('4000-add-comments.ts');
+    expect(stepNames(plan)).toEqual(['up 3000-add-index.ts', 'up 4000-add-comments.ts']);
+  });
+
+  it('plans the most recent migration for down', async () => {
+    const { core } = await setup();
+    const plan = await core.planDown();
+
+    expect(plan.strategy).toBe('sequential');
+    expect(stepNames(plan)).toEqual(['down 2000-create-posts.ts']);
+  });
+
+  it('applies the last pending migration as a batch but refuses to skip later ones', async () => {
+    const { core, migrations } = await setup();
+
+    expect(stepNames(await core.planApply(find(migrations, '4000-add-comments.ts')))).toEqual([
+      'up 3000-add-index.ts',
+      'up 4000-add-comments.ts'
+    ]);
+    await expect(core.planApply(find(migrations, '3000-add-index.ts'))).rejects.toThrow(
+      'can only apply all pending migrations at once; migrating to 3000-add-index.ts would also apply 4000-add-comments.ts'
+    );
+    await expect(core.planApply(find(migrations, '1000-create-users.ts'))).rejects.toThrow('is already applied');
+  });
+
+  it('reverts everything that ran after the target first', async () => {
+    const { core, migrations } = await setup();
+    const plan = await core.planRevert(find(migrations, '1000-create-users.ts'));
+
+    expect(plan.strategy).toBe('sequential');
+    expect(stepNames(plan)).toEqual(['down 2000-create-posts.ts', 'down 1000-create-users.ts']);
+    await expect(core.planRevert(find(migrations, '3000-add-index.ts'))).rejects.toThrow('is not applied');
+  });
+
+  it('migrates to a target by reverting or applying around it', async () => {
+    const { core, migrations } = await setup();
+
+    expect(stepNames(await core.planMigrateTo(find(migrations, '1000-create-users.ts')))).toEqual([
+      'down 2000-create-posts.ts'
+    ]);
+    expect(stepNames(await core.planMigrateTo(find(migrations, '4000-add-comments.ts')))).toEqual([
+      'up 3000-add-index.ts',
+      'up 4000-add-comments.ts'
+    ]);
+  });
+
+  it('executes a sequential revert and reports each step', async () => {
+    const { core, cli, migrations } = await setup();
+    const plan = await core.planRevert(find(migrations, '1000-create-users.ts'));
+    const reported: string[] = [];
+
+    const results = await core.executePlan(plan, (index, step, result) => {
+      if (result) reported.push(`${index} ${step.migration.name} ${result.success}`);
+    });
+
+    expect(results.map(step => step.result.success)).toEqual([true, true]);
+    expect(reported).toEqual(['0 2000-create-posts.ts true', '1 1000-create-users.ts true']);
+    expect(cli.applied).toEqual([]);
+  });
+
+  it('refuses to plan while the database status is unavailable', async () => {
+    const { core, fs } = createCore({ commands: { showStatus: 'missing-binary' } });
+    addMigration(fs, '1000-create-users');
+
+    await expect(core.planUp()).rejects.toThrow('database status is unavailable');
+  });
+});
+
+describe('plan builders with execution order', () => {
+  // Applied in the order 1000, 3000, 2000, e.g. after 2000 was merged from a long-lived branch.
+  function setup(options: { revertOne?: boolean } = {}) {
+    const records: AppliedMigrationRecord[] = [
+      { id: 1, name: '1000-a.sql', timestamp: 1000 },
+      { id: 2, name: '3000-c.sql', timestamp: 3000 },
+      { id: 3, name: '2000-b.sql', timestamp: 2000 }
+    ];
+    const reverted: string[] = [];
+    const ok = (stdout: string): CommandResult => ({ success: true, code: 0, stdout, stderr: '' });
+
+    const fs = new MemoryFileSystem();
+    for (const name of ['1000-a.sql', '2000-b.sql', '3000-c.sql', '4000-d.sql']) {
+      fs.put(path.join(MIGRATIONS_DIR, name), 'CREATE TABLE example (id int);\n');
+    }
+
+    const harness = createCore({
+      adapter: 'fake',
+      adapters: {
+        fake: (): MigrationAdapter => ({
+          name: 'fake',
+          isMigrationFile: file => file.endsWith('.sql'),
+          getAppliedMigrations: async () => records.map(record => ({ ...record })),
+          isApplied: (migration, applied) => applied.some(record => record.name === migration.name),
+          checkConnection: async () => true,
+          up: async () => ok(''),
+          down: async () => {
+            const last = records.sort((a, b) => a.id! - b.id!).pop();
+            if (last) reverted.push(last.name);
+            return ok(last ? `Reverted ${last.name}` : '');
+          },
+          ...(options.revertOne && {
+            revertOne: async migration => {
+              records.splice(records.findIndex(record => record.name === migration.name), 1);
+              reverted.push(migration.name);
+              return ok(`Reverted ${migration.name}`);
+            }
+          }),
+          create: async () => ok('')
+        })
+      }
+    }, { fs });
+
+    return { ...harness, records, reverted };
+  }
+
+  it('reverts in execution order rather than timestamp order', async () => {
+    const { core } = setup();
+    const migrations = await core.loadMigrations();
+
+    expect((await core.planDown()).target.name).toBe('2000-b.sql');
+    expect((await core.planRevert(find(migrations, '3000-c.sql'))).steps.map(step => step.migration.name)).toEqual([
+      '2000-b.sql',
+      '3000-c.sql'
+    ]);
+  });
+
+  it('refuses to migrate to a point that would revert a later-executed migration', async () => {
+    const { core } = setup();
+    const migrations = await core.loadMigrations();
+
+    await expect(core.planMigrateTo(find(migrations, '2000-b.sql'))).rejects.toThrow(
+      'reverting 3000-c.sql would also revert 2000-b.sql, which ran after them'
+    );
+  });
+
+  it('reverts single migrations when the adapter supports it', async () => {
+    const { core, reverted } = setup({ revertOne: true });
+    const migrations = await core.loadMigrations();
+
+    const plan = await core.planMigrateTo(find(migrations, '2000-b.sql'));
+    expect(plan.strategy).toBe('single');
+
+    const results = await core.executePlan(plan);
+    expect(results.map(step => step.result.success)).toEqual([true]);
+    expect(reverted).toEqual(['3000-c.sql']);
+  });
+
+  it('stops the plan when a step reverts a different migration', async () => {
+    const { core, reverted } = setup();
+    const migrations = await core.loadMigrations();
+    const target = find(migrations, '3000-c.sql');
+
+    const results = await core.executePlan({
+      target,
+      steps: [{ migration: target, direction: 'down' }, { migration: find(migrations, '1000-a.sql'), direction: 'down' }],
+      strategy: 'sequential'
+    });
+
+    expect(reverted).toEqual(['2000-b.sql']);
+    expect(results).toHaveLength(1);
+    expect(results[0].result).toMatchObject({ success: false });
+    expect(results[0].result.stderr).toContain('Expected to revert 3000-c.sql, but it is still applied');
+  });
+});
+
+describe('locking', () => {
+  it('holds the lock file while a run is in progress and removes it afterwards', async () => {
+    const fs = new MemoryFileSystem();
+    const locked: Array<string | undefined> = [];
+    const { core } = createCore({}, { fs, onRun: command => command === 'migrate:up' && locked.push(fs.read(LOCK_FILE)) });
+    addMigration(fs, '1000-create-users');
+
+    const result = await core.migrateUp();
+
+    expect(result.success).toBe(true);
+    expect(JSON.parse(locked[0]!)).toMatchObject({ pid: process.pid, operation: 'Applying migrations' });
+    expect(fs.read(LOCK_FILE)).toBeUndefined();
+  });
+
+  it('refuses to run while another process holds the lock', async () => {
+    const { core, fs, cli } = createCore();
+    addMigration(fs, '1000-create-users');
+    const holder = { user: 'bob', host: 'ci-runner', pid: 4242, operation: 'Applying migrations', acquiredAt: '2024-01-01T00:00:00.000Z' };
+    fs.put(LOCK_FILE, JSON.stringify(holder));
+
+    const result = await core.migrateUp();
+
+    expect(result).toMatchObject({ success: false, migrations: [] });
+    expect(result.stderr).toContain('Migrations are locked by bob@ci-runner (Applying migrations)');
+    expect(cli.runner.spawned).toEqual([]);
+    expect(await core.getLockHolder()).toEqual(holder);
+
+    expect(await core.forceUnlock()).toEqual(holder);
+    expect((await core.migrateUp()).success).toBe(true);
+  });
+
+  it('uses a separate lock file per profile', async () => {
+    const { core, fs } = createCore({ profiles: { prod: {} }, defaultProfile: 'prod' });
+    addMigration(fs, '1000-create-users');
+    fs.put(LOCK_FILE, JSON.stringify({ user: 'bob', host: 'ci-runner', acquiredAt: '2024-01-01T00:00:00.000Z' }));
+
+    expect((await core.migrateUp()).success).toBe(true);
+    expect(fs.read(path.join(PROJECT_DIR, '.migration-lock.prod.json'))).toBeUndefined();
+  });
+});
+
+describe('protected profiles', () => {
+  const profiles = {
+    prod: { protected: true, database: { name: 'app_prod' } },
+    unnamed: { protected: true }
+  };
+
+  it('requires the configured database name to run', async () => {
+    const { core, fs, cli } = createCore({ profiles, defaultProfile: 'prod' });
+    addMigration(fs, '1000-create-users');
+    addMigration(fs, '2000-create-posts');
+
+    const refused = await core.up();
+    expect(refused).toMatchObject({ success: false, migrations: [] });
+    expect(refused.stderr).toBe('Profile "prod" is protected; confirm with the database name "app_prod" to run migrations');
+    expect((await core.up({ confirm: 'eternal_app' })).success).toBe(false);
+    expect(cli.runner.spawned).toEqual([]);
+
+    expect((await core.up({ confirm: 'app_prod' })).success).toBe(true);
+    expect((await core.down()).success).toBe(false);
+    expect((await core.down({ confirm: 'app_prod' })).success).toBe(true);
+    expect(cli.applied).toEqual(['1000-create-users']);
+  });
+
+  it('guards plans the same way', async () => {
+    const { core, fs, cli } = createCore({ profiles, defaultProfile: 'prod' });
+    addMigration(fs, '1000-create-users');
+    cli.applied.push('1000-create-users');
+
+    const plan = await core.planDown();
+    const [refused] = await core.executePlan(plan);
+
+    expect(refused.result.stderr).toContain('is protected');
+    expect(cli.applied).toEqual(['1000-create-users']);
+    expect((await core.executePlan(plan, undefined, { confirm: 'app_prod' }))[0].result.success).toBe(true);
+  });
+
+  it('refuses to run a protected profile without a configured database name', async () => {
+    const { core, fs } = createCore({ profiles, defaultProfile: 'unnamed' });
+    addMigration(fs, '1000-create-users');
+
+    expect(core.getConfirmationName()).toBeNull();
+    expect((await core.up({ confirm: core.dbInfo.database })).stderr).toBe(
+      'Profile "unnamed" is protected but has no database name configured; set "database.name" to run migrations against it'
+    );
+  });
+});
@@ -0,0 +1,228 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DataSourceBackend } from '../src/datasource';
+
+describe('DataSourceBackend.connect', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'migration-manager-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  // A DataSource file that counts how often it is loaded and initialized, and records the env it saw.
+  async function writeDataSource(): Promise<string> {
+    const file = path.join(dir, 'data-source.js');
+    await fs.writeFile(file, `
+      global.dataSourceLoads = (global.dataSourceLoads || 0) + 1;
+      module.exports.AppDataSource = {
+        isInitialized: false,
+        options: { type: 'postgres', host: 'db', database: process.env.MM_TEST_DATABASE },
+        driver: { escape: name => '"' + name + '"' },
+        async initialize() {
+          global.dataSourceInits = (global.dataSourceInits || 0) + 1;
+          await new Promise(resolve => setTimeout(resolve, 10));
+          this.isInitialized = true;
+        },
+        async destroy() { this.isInitialized = false; },
+        async query() { return []; },
+        createQueryRunner() { throw new Error('not used'); },
+        async runMigrations() { return []; },
+        async undoLastMigration() {}
+      };
+    `);
+    return file;
+  }
+
+  const globals = global as typeof global & { dataSourceLoads?: number; dataSourceInits?: number };
+
+  afterEach(() => {
+    delete globals.dataSourceLoads;
+    delete globals.dataSourceInits;
+  });
+
+  it('shares one in-flight connection between concurrent callers', async () => {
+    const backend = new DataSourceBackend(await writeDataSource(), { MM_TEST_DATABASE: 'app_staging' });
+
+    const [first, second, third] = await Promise.all([backend.connect(), backend.connect(), backend.connect()]);
+
+    expect(second).toBe(first);
+    expect(third).toBe(first);
+    expect(globals.dataSourceLoads).toBe(1);
+    expect(globals.dataSourceInits).toBe(1);
+    expect(backend.getConnectionInfo()).toEqual({ host: 'db', database: 'app_staging' });
+    expect(process.env.MM_TEST_DATABASE).toBeUndefined();
+  });
+
+  it('loads the file again after a failed attempt or a disconnect', async () => {
+    const backend = new DataSourceBackend(path.join(dir, 'missing.js'));
+    await expect(backend.connect()).rejects.toThrow();
+
+    const file = await writeDataSource();
+    await fs.rename(file, path.join(dir, 'missing.js'));
+    await backend.connect();
+    await backend.disconnect();
+    await backend.connect();
+
+    expect(globals.dataSourceInits).toBe(2);
+  });
+});
+
+describe('DataSourceBackend.recordMigration', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'migration-manager-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function write(name: string, source: string): Promise<string> {
+    const file = path.join(dir, name);
+    await fs.writeFile(file, source);
+    return file;
+  }
+
+  // A migration that writes through the runner it is given and, behind its back, through the
+  // connection, an EntityManager and a transaction.
+  const SNEAKY_MIGRATION = `
+    module.exports.Sneaky1000 = class Sneaky1000 {
+      async up(queryRunner) {
+        await queryRunner.query('CREATE TABLE recorded (id int)');
+        await queryRunner.connection.query('CREATE TABLE via_connection (id int)');
+        await queryRunner.manager.query('INSERT INTO existing (id) VALUES (2)');
+        await queryRunner.connection.manager.transaction(manager => manager.query('DELETE FROM existing'));
+        await queryRunner.query('SELECT COUNT(*) AS count FROM existing');
+      }
+
+      async down() {}
+    };
+  `;
+
+  it('records writes from every path without touching the database', async () => {
+    const dataSourceFile = await write('data-source.js', `
+      require(${JSON.stringify(require.resolve('reflect-metadata'))});
+      const { DataSource } = require(${JSON.stringify(require.resolve('typeorm'))});
+      module.exports.AppDataSource = new DataSource({ type: 'sqljs', location: ${JSON.stringify(path.join(dir, 'app.sqlite'))}, autoSave: true });
+    `);
+    const backend = new DataSourceBackend(dataSourceFile);
+    const dataSource = await backend.connect();
+    await dataSource.query('CREATE TABLE existing (id int)');
+    await dataSource.query('INSERT INTO existing (id) VALUES (1)');
+
+    const statements = await backend.recordMigration(await write('1000-sneaky.js', SNEAKY_MIGRATION), 'up');
+
+    expect(statements).toEqual(expect.arrayContaining([
+      'CREATE TABLE recorded (id int);',
+      'CREATE TABLE via_connection (id int);',
+      'INSERT INTO existing (id) VALUES (2);',
+      'DELETE FROM existing;'
+    ]));
+    expect(await dataSource.query(`SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name`)).toEqual([{ name: 'existing' }]);
+    expect(await dataSource.query('SELECT id FROM existing')).toEqual([{ id: 1 }]);
+
+    // The DataSource works normally again once the preview is over.
+    await dataSource.query('INSERT INTO existing (id) VALUES (3)');
+    expect(await dataSource.query('SELECT COUNT(*) AS count FROM existing')).toEqual([{ count: 2 }]);
+
+    await backend.disconnect();
+  });
+
+  it('refuses to preview drivers it cannot keep from writing', async () => {
+    const dataSourceFile = await write('data-source.js', `
+      module.exports.AppDataSource = {
+        isInitialized: true,
+        options: { type: 'oracle' },
+        driver: { escape: name => name, createQueryRunner() { throw new Error('no runner expected'); } },
+        async initialize() {},
+        async destroy() {},
+        async query() { return []; },
+        createQueryRunner() { throw new Error('no runner expected'); },
+        async runMigrations() { return []; },
+        async undoLastMigration() {}
+      };
+    `);
+    const migrationFile = await write('1000-touch.js', `
+      module.exports.Touch1000 = class Touch1000 {
+        async up() { global.previewTouched = true; }
+        async down() {}
+      };
+    `);
+
+    await expect(new DataSourceBackend(dataSourceFile).recordMigration(migrationFile, 'up')).rejects.toThrow(
+      'SQL preview is not supported for "oracle" DataSources'
+    );
+    expect((global as typeof global & { previewTouched?: boolean }).previewTouched).toBeUndefined();
+  });
+});
+
+describe('DataSourceBackend.createAdvisoryLock', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'migration-manager-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+    delete (global as typeof global & { lockQueries?: string[] }).lockQueries;
+  });
+
+  it('resets the session application_name before a PostgreSQL lock connection is released', async () => {
+    const file = path.join(dir, 'data-source.js');
+    await fs.writeFile(file, `
+      global.lockQueries = [];
+      let locked = false;
+      module.exports.AppDataSource = {
+        isInitialized: true,
+        options: { type: 'postgres', host: 'db', database: 'app' },
+        driver: { escape: name => '"' + name + '"' },
+        async initialize() {},
+        async destroy() {},
+        async query() { return []; },
+        createQueryRunner() {
+          return {
+            async query(sql) {
+              global.lockQueries.push(sql);
+              if (!sql.includes('pg_try_advisory_lock')) return [];
+              const granted = !locked;
+              locked = true;
+              return [{ locked: granted }];
+            },
+            async hasTable() { return false; },
+            async release() { global.lockQueries.push('release'); }
+          };
+        },
+        async runMigrations() { return []; },
+        async undoLastMigration() {}
+      };
+    `);
+    const backend = new DataSourceBackend(file);
+    const lock = (await backend.createAdvisoryLock())!;
+    const other = (await backend.createAdvisoryLock())!;
+    const holder = { user: 'ada', host: 'laptop', acquiredAt: '2024-01-01T00:00:00.000Z' };
+    const queries = (global as typeof global & { lockQueries: string[] }).lockQueries;
+
+    expect(await lock.acquire(holder)).toBeNull();
+    expect(await other.acquire({ ...holder, user: 'bob' })).toMatchObject({ user: 'unknown' });
+    await lock.release(holder);
+
+    expect(queries.map(sql => sql.split('(')[0])).toEqual([
+      `SELECT set_config`,
+      'SELECT pg_try_advisory_lock',
+      `SELECT set_config`,
+      'SELECT pg_try_advisory_lock',
+      'RESET application_name',
+      'release',
+      'SELECT pg_advisory_unlock',
+      'RESET application_name',
+      'release'
+    ]);
+  });
+});
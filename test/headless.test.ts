@@ -0,0 +1,130 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { EXIT_FAILURE, EXIT_OK, EXIT_PENDING, parseArgs, runHeadless, UsageError } from '../src/headless';
+import { MigrationShellConfig } from '../src/types';
+import { migrationSource } from './helpers';
+
+describe('parseArgs', () => {
+  it('reads the command, its argument and flags', () => {
+    expect(parseArgs(['to', '1000', '--profile', 'prod', '--confirm', 'app', '--dry-run'])).toMatchObject({
+      command: 'to',
+      args: ['1000'],
+      profile: 'prod',
+      confirm: 'app',
+      dryRun: true
+    });
+  });
+
+  it.each([
+    [['down', '2'], 'Unexpected argument for "down": 2'],
+    [['up', 'now', 'please'], 'Unexpected arguments for "up": now please'],
+    [['create', 'Add', 'Users'], 'Unexpected argument for "create": Users']
+  ])('rejects extra arguments in %j', (argv, message) => {
+    expect(() => parseArgs(argv)).toThrow(new UsageError(message));
+  });
+});
+
+describe('runHeadless', () => {
+  let dir: string;
+  let statusFile: string;
+  let output: string[];
+
+  // A project whose migration commands are shell commands over a status file in TypeORM's format.
+  function project(overrides: MigrationShellConfig = {}): MigrationShellConfig {
+    const status = JSON.stringify(statusFile);
+    return {
+      migrationsDir: path.join(dir, 'migrations'),
+      commands: {
+        showStatus: `cat ${status}`,
+        migrateUp: `echo '[X] 1 CreateUsers1000' > ${status}`,
+        migrateDown: `: > ${status}`
+      },
+      historyFile: path.join(dir, 'history.jsonl'),
+      checksumFile: path.join(dir, 'checksums.json'),
+      metadataCacheFile: path.join(dir, 'cache.json'),
+      lockFile: path.join(dir, 'lock.json'),
+      ...overrides
+    };
+  }
+
+  const run = (argv: string[], config: MigrationShellConfig = project()) => runHeadless(parseArgs(argv), config);
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'migration-manager-'));
+    statusFile = path.join(dir, 'status.txt');
+    await fs.mkdir(path.join(dir, 'migrations'));
+    await fs.writeFile(path.join(dir, 'migrations', '1000-create-users.ts'), migrationSource('CreateUsers1000'));
+    await fs.writeFile(statusFile, '[ ] CreateUsers1000\n');
+
+    output = [];
+    const capture = (...args: unknown[]) => { output.push(args.join(' ')); };
+    jest.spyOn(console, 'log').mockImplementation(capture);
+    jest.spyOn(console, 'error').mockImplementation(capture);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('prints the usage for help', async () => {
+    expect(await run(['help'])).toBe(EXIT_OK);
+    expect(output.join('\n')).toContain('Usage');
+  });
+
+  it('exits with the pending code only when asked to', async () => {
+    expect(await run(['status'])).toBe(EXIT_OK);
+    expect(output.join('\n')).toContain('1000-create-users.ts');
+    expect(await run(['status', '--fail-on-pending'])).toBe(EXIT_PENDING);
+  });
+
+  it('fails the status when the database cannot be reached', async () => {
+    const config = project({ commands: { showStatus: 'echo "connection refused" >&2; exit 1' } });
+
+    expect(await run(['status', '--format', 'junit'], config)).toBe(EXIT_FAILURE);
+    expect(output.join('\n')).toContain('<error type="disconnected"');
+  });
+
+  it('writes a JSON report to the output file', async () => {
+    const reportFile = path.join(dir, 'report.json');
+
+    expect(await run(['status', '-f', 'json', '-o', reportFile])).toBe(EXIT_OK);
+
+    const report = JSON.parse(await fs.readFile(reportFile, 'utf-8'));
+    expect(report.summary).toMatchObject({ total: 1, pending: 1, applied: 0 });
+    expect(report.migrations[0]).toMatchObject({ name: '1000-create-users.ts', status: 'pending' });
+  });
+
+  it('applies and reverts migrations, failing with the command', async () => {
+    expect(await run(['up'])).toBe(EXIT_OK);
+    expect(await run(['status', '--fail-on-pending'])).toBe(EXIT_OK);
+    expect(await run(['down'])).toBe(EXIT_OK);
+    expect(await fs.readFile(statusFile, 'utf-8')).toBe('');
+
+    expect(await run(['up'], project({ commands: { showStatus: `cat ${JSON.stringify(statusFile)}`, migrateUp: 'exit 4' } }))).toBe(EXIT_FAILURE);
+  });
+
+  it('requires --confirm with the database name on a protected profile', async () => {
+    const config = project({ defaultProfile: 'prod', profiles: { prod: { protected: true, database: { name: 'app_prod' } } } });
+
+    await expect(run(['up'], config)).rejects.toThrow(new UsageError('Profile "prod" is protected. Pass --confirm app_prod to run "up"'));
+    await expect(run(['up', '--confirm', 'app'], config)).rejects.toThrow(UsageError);
+    expect(await fs.readFile(statusFile, 'utf-8')).toBe('[ ] CreateUsers1000\n');
+
+    expect(await run(['up', '--confirm', 'app_prod'], config)).toBe(EXIT_OK);
+  });
+
+  it('fails lint and up on lint errors unless overridden', async () => {
+    await fs.writeFile(path.join(dir, 'migrations', '1000-create-users.ts'), migrationSource('CreateUsers1000', 'DROP TABLE users'));
+
+    expect(await run(['lint'])).toBe(EXIT_FAILURE);
+    expect(output.join('\n')).toContain('1000-create-users.ts:3  error   drop-table  DROP TABLE users');
+    expect(await run(['up'])).toBe(EXIT_FAILURE);
+    expect(await run(['up', '--override-lint'])).toBe(EXIT_OK);
+  });
+
+  it('rejects an unknown target migration', async () => {
+    await expect(run(['to', '9999'])).rejects.toThrow(new UsageError('Migration not found: 9999', false));
+  });
+});
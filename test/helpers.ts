@@ -0,0 +1,280 @@
+import { EventEmitter } from 'events';
+import path from 'path';
+import { MigrationCore } from '../src/core';
+import { CommandProcess, FileSystem, ProcessRunner, ReadOptions } from '../src/runtime';
+import { LogType, MigrationShellConfig } from '../src/types';
+
+export const PROJECT_DIR = '/project';
+export const MIGRATIONS_DIR = path.join(PROJECT_DIR, 'migrations');
+
+function fsError(code: string, syscall: string, filePath: string): NodeJS.ErrnoException {
+  return Object.assign(new Error(`${code}: ${syscall} '${filePath}'`), { code, syscall, path: filePath });
+}
+
+interface MemoryFile {
+  content: string;
+  mtimeMs: number;
+  birthtimeMs: number;
+}
+
+export class MemoryFileSystem implements FileSystem {
+  readonly files = new Map<string, MemoryFile>();
+  private readonly dirs = new Set<string>(['/']);
+  // A logical clock, so every write changes mtimeMs even within the same millisecond.
+  private clock = 1;
+
+  put(filePath: string, content: string): void {
+    this.addDir(path.dirname(filePath));
+    const existing = this.files.get(filePath);
+    const now = this.clock++;
+    this.files.set(filePath, { content, mtimeMs: now, birthtimeMs: existing?.birthtimeMs ?? now });
+  }
+
+  read(filePath: string): string | undefined {
+    return this.files.get(filePath)?.content;
+  }
+
+  async access(filePath: string): Promise<void> {
+    if (!this.files.has(filePath) && !this.dirs.has(filePath)) throw fsError('ENOENT', 'access', filePath);
+  }
+
+  async readdir(dirPath: string): Promise<string[]> {
+    if (!this.dirs.has(dirPath)) throw fsError('ENOENT', 'scandir', dirPath);
+    return [...this.files.keys(), ...this.dirs]
+      .filter(entry => entry !== dirPath && path.dirname(entry) === dirPath)
+      .map(entry => path.basename(entry))
+      .sort();
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    const file = this.files.get(filePath);
+    if (!file) throw fsError('ENOENT', 'open', filePath);
+    return file.content;
+  }
+
+  async writeFile(filePath: string, data: string, options: 'utf-8' | { encoding?: 'utf-8'; flag?: string }): Promise<void> {
+    this.assertParent(filePath, 'open');
+    if (typeof options === 'object' && options.flag === 'wx' && this.files.has(filePath)) {
+      throw fsError('EEXIST', 'open', filePath);
+    }
+    this.put(filePath, data);
+  }
+
+  async appendFile(filePath: string, data: string): Promise<void> {
+    this.assertParent(filePath, 'open');
+    this.put(filePath, (this.files.get(filePath)?.content ?? '') + data);
+  }
+
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    const file = this.files.get(oldPath);
+    if (!file) throw fsError('ENOENT', 'rename', oldPath);
+    this.files.delete(oldPath);
+    this.files.set(newPath, file);
+  }
+
+  async link(existingPath: string, newPath: string): Promise<void> {
+    const file = this.files.get(existingPath);
+    if (!file) throw fsError('ENOENT', 'link', existingPath);
+    if (this.files.has(newPath)) throw fsError('EEXIST', 'link', newPath);
+    this.files.set(newPath, { ...file });
+  }
+
+  async mkdir(dirPath: string): Promise<undefined> {
+    this.addDir(dirPath);
+    return undefined;
+  }
+
+  async stat(filePath: string): Promise<{ mtimeMs: number; birthtimeMs: number; size: number }> {
+    const file = this.files.get(filePath);
+    if (!file) throw fsError('ENOENT', 'stat', filePath);
+    return { mtimeMs: file.mtimeMs, birthtimeMs: file.birthtimeMs, size: Buffer.byteLength(file.content) };
+  }
+
+  async rm(filePath: string): Promise<void> {
+    this.files.delete(filePath);
+  }
+
+  private addDir(dirPath: string): void {
+    for (let dir = dirPath; !this.dirs.has(dir); dir = path.dirname(dir)) {
+      this.dirs.add(dir);
+    }
+  }
+
+  private assertParent(filePath: string, syscall: string): void {
+    if (!this.dirs.has(path.dirname(filePath))) throw fsError('ENOENT', syscall, filePath);
+  }
+}
+
+export interface FakeResult {
+  code?: number;
+  stdout?: string;
+  stderr?: string;
+}
+
+export type FakeHandler = (command: string, env: NodeJS.ProcessEnv) => FakeResult | Promise<FakeResult>;
+
+class FakeProcess implements CommandProcess {
+  readonly stdout = new EventEmitter();
+  readonly stderr = new EventEmitter();
+  readonly signals: NodeJS.Signals[] = [];
+  private readonly events = new EventEmitter();
+
+  constructor(result: Promise<FakeResult>) {
+    // Settle on a later turn, like a real process, so the caller has attached its listeners.
+    result.then(
+      ({ code = 0, stdout = '', stderr = '' }) => setImmediate(() => {
+        if (stdout) this.stdout.emit('data', stdout);
+        if (stderr) this.stderr.emit('data', stderr);
+        this.events.emit('close', code, null);
+      }),
+      (error: Error) => setImmediate(() => this.events.emit('error', error))
+    );
+  }
+
+  on(event: 'close', listener: (code: number | null, signal: NodeJS.Signals | null) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+  on(
+    event: 'close' | 'error',
+    listener: ((code: number | null, signal: NodeJS.Signals | null) => void) | ((error: Error) => void)
+  ): this {
+    this.events.on(event, listener as (...args: unknown[]) => void);
+    return this;
+  }
+
+  kill(signal: NodeJS.Signals): void {
+    this.signals.push(signal);
+  }
+}
+
+export class FakeRunner implements ProcessRunner {
+  readonly spawned: string[] = [];
+  readonly reads: string[] = [];
+
+  constructor(private readonly handle: FakeHandler) {}
+
+  spawn(command: string, env: NodeJS.ProcessEnv): CommandProcess {
+    this.spawned.push(command);
+    return new FakeProcess(Promise.resolve().then(() => this.handle(command, env)));
+  }
+
+  async read(command: string, { env }: ReadOptions): Promise<string> {
+    this.reads.push(command);
+    const { code = 0, stdout = '', stderr = '' } = await this.handle(command, env);
+    if (code !== 0) {
+      throw Object.assign(new Error(stderr || `Command failed with exit code ${code}: ${command}`), { code });
+    }
+    return stdout;
+  }
+}
+
+const COMMANDS = {
+  showStatus: 'migration:show',
+  migrateUp: 'migrate:up',
+  migrateDown: 'migrate:down',
+  create: 'migration:create {name}',
+  generate: 'migration:generate {name}'
+};
+
+// Plays the TypeORM CLI against an in-memory database: migrations in the directory are applied in
+// timestamp order and reverted last-applied first.
+export class FakeMigrationCli {
+  readonly applied: string[] = [];
+  readonly failing = new Set<string>();
+  readonly runner: FakeRunner;
+  gitUser: { name: string; email: string } | null = null;
+
+  constructor(readonly fs: MemoryFileSystem, private readonly onRun?: (command: string) => void) {
+    this.runner = new FakeRunner(command => this.handle(command));
+  }
+
+  private migrationNames(): string[] {
+    return [...this.fs.files.keys()]
+      .filter(file => path.dirname(file) === MIGRATIONS_DIR && file.endsWith('.ts'))
+      .map(file => path.basename(file, '.ts'))
+      .sort((a, b) => parseInt(a) - parseInt(b));
+  }
+
+  private handle(command: string): FakeResult {
+    this.onRun?.(command);
+
+    if (command === COMMANDS.showStatus) {
+      const lines = [...new Set([...this.migrationNames(), ...this.applied])]
+        .map(name => this.applied.includes(name) ? `[X] ${this.applied.indexOf(name) + 1} ${name}` : `[ ] ${name}`);
+      return { stdout: `${lines.join('\n')}\n` };
+    }
+
+    if (command === COMMANDS.migrateUp) {
+      for (const name of this.migrationNames().filter(name => !this.applied.includes(name))) {
+        if (this.failing.has(name)) {
+          return { code: 1, stderr: `Migration "${name}" failed: relation already exists` };
+        }
+        this.applied.push(name);
+      }
+      return { stdout: 'Migrations applied\n' };
+    }
+
+    if (command === COMMANDS.migrateDown) {
+      const name = this.applied.pop();
+      return { stdout: name ? `Reverted ${name}\n` : 'No migrations to revert\n' };
+    }
+
+    if (command === 'git config user.name' && this.gitUser) return { stdout: `${this.gitUser.name}\n` };
+    if (command === 'git config user.email' && this.gitUser) return { stdout: `${this.gitUser.email}\n` };
+
+    return { code: 127, stderr: `sh: ${command.split(' ')[0]}: not found` };
+  }
+}
+
+export interface CoreHarness {
+  core: MigrationCore;
+  fs: MemoryFileSystem;
+  cli: FakeMigrationCli;
+  logs: Array<{ message: string; type: LogType }>;
+}
+
+export function createCore(
+  config: MigrationShellConfig = {},
+  options: { fs?: MemoryFileSystem; onRun?: (command: string) => void } = {}
+): CoreHarness {
+  const fs = options.fs ?? new MemoryFileSystem();
+  const cli = new FakeMigrationCli(fs, options.onRun);
+  const logs: CoreHarness['logs'] = [];
+
+  const core = new MigrationCore(
+    {
+      migrationsDir: MIGRATIONS_DIR,
+      commands: COMMANDS,
+      historyFile: path.join(PROJECT_DIR, '.migration-history.jsonl'),
+      checksumFile: path.join(PROJECT_DIR, '.migration-checksums.json'),
+      metadataCacheFile: path.join(PROJECT_DIR, '.migration-cache.json'),
+      lockFile: path.join(PROJECT_DIR, '.migration-lock.json'),
+      ...config
+    },
+    (message, type) => logs.push({ message, type }),
+    { fs, runner: cli.runner }
+  );
+
+  return { core, fs, cli, logs };
+}
+
+export function migrationSource(className: string, up = 'CREATE TABLE example (id int)'): string {
+  return [
+    `export class ${className} {`,
+    '  async up(queryRunner) {',
+    `    await queryRunner.query(\`${up}\`);`,
+    '  }',
+    '',
+    '  async down(queryRunner) {',
+    '    await queryRunner.query(`SELECT 1`);',
+    '  }',
+    '}',
+    ''
+  ].join('\n');
+}
+
+export function addMigration(fs: MemoryFileSystem, name: string, content?: string): void {
+  const className = name.replace(/^(\d+)-(.*)$/, (_, timestamp: string, rest: string) =>
+    rest.replace(/(^|-)(\w)/g, (__: string, ___: string, char: string) => char.toUpperCase()) + timestamp
+  );
+  fs.put(path.join(MIGRATIONS_DIR, `${name}.ts`), content ?? migrationSource(className));
+}
@@ -0,0 +1,142 @@
+import { lintMigration } from '../src/lint';
+import { migrationSource } from './helpers';
+
+function rules(content: string, options: { downContent?: string | null; sql?: boolean } = {}): string[] {
+  return lintMigration({ content, ...options }).map(finding => finding.rule);
+}
+
+describe('lintMigration', () => {
+  it('flags DROP TABLE and TRUNCATE passed to query()', () => {
+    const findings = lintMigration({ content: migrationSource('DropUsers1000', 'DROP TABLE "users"; TRUNCATE TABLE sessions') });
+
+    expect(findings).toEqual([
+      { rule: 'drop-table', severity: 'error', message: 'DROP TABLE users', line: 3 },
+      { rule: 'truncate', severity: 'error', message: 'TRUNCATE sessions', line: 3 }
+    ]);
+  });
+
+  it('ignores SQL keywords in comments, other strings and identifiers', () => {
+    const content = [
+      '// Replaces the old migration that would DROP TABLE users.',
+      'export class TruncateLogs1000 {',
+      '  /* TRUNCATE sessions is done by the cleanup job */',
+      '  async up(queryRunner) {',
+      "    const truncateLogs = 'TRUNCATE logs';",
+      "    this.log('drop table users by hand if needed', truncateLogs);",
+      "    await queryRunner.query(`ALTER TABLE users ADD note text DEFAULT 'drop table x'`); // DROP TABLE later",
+      "    await queryRunner.query('SELECT 1 -- TRUNCATE users');",
+      '  }',
+      '',
+      '  async down(queryRunner) {',
+      "    await queryRunner.query('ALTER TABLE users DROP COLUMN note');",
+      '  }',
+      '}'
+    ].join('\n');
+
+    expect(rules(content)).toEqual([]);
+  });
+
+  it('reads SQL from template literals with interpolations and multiple query() calls', () => {
+    const content = [
+      'export class Cleanup1000 {',
+      '  async up(queryRunner) {',
+      '    await queryRunner.query(`CREATE INDEX idx_users_email ON users (email)`);',
+      '    await queryRunner.query(`DROP TABLE ${this.table}`);',
+      '  }',
+      '',
+      '  async down() {}',
+      '}'
+    ].join('\n');
+
+    expect(lintMigration({ content })).toEqual([
+      { rule: 'missing-down', severity: 'warning', message: 'No down migration; this migration cannot be reverted', line: undefined },
+      { rule: 'non-concurrent-index', severity: 'warning', message: 'CREATE INDEX on users without CONCURRENTLY locks writes', line: 3 },
+      { rule: 'drop-table', severity: 'error', message: 'DROP TABLE table', line: 4 }
+    ]);
+  });
+
+  it('flags QueryRunner API calls outside comments', () => {
+    const content = [
+      'export class DropLegacy1000 {',
+      '  async up(queryRunner) {',
+      '    // await queryRunner.clearTable("audit");',
+      "    await queryRunner.dropTable('legacy');",
+      "    await queryRunner.addColumn('users', new TableColumn({ name: 'role', type: 'text', isNullable: false }));",
+      '  }',
+      '',
+      '  async down(queryRunner) {',
+      "    await queryRunner.query('SELECT 1');",
+      '  }',
+      '}'
+    ].join('\n');
+
+    expect(lintMigration({ content }).map(({ rule, line }) => ({ rule, line }))).toEqual([
+      { rule: 'drop-table', line: 4 },
+      { rule: 'not-null-without-default', line: 5 }
+    ]);
+  });
+
+  it('only checks the up migration', () => {
+    const content = [
+      'export class CreateAudit1000 {',
+      '  async up(queryRunner) {',
+      "    await queryRunner.query('CREATE TABLE audit (id int)');",
+      '  }',
+      '',
+      '  async down(queryRunner) {',
+      "    await queryRunner.query('DROP TABLE audit');",
+      '  }',
+      '}'
+    ].join('\n');
+
+    expect(rules(content)).toEqual([]);
+  });
+
+  it('checks each ALTER TABLE ADD clause for its own DEFAULT', () => {
+    const findings = lintMigration({
+      content: 'ALTER TABLE users ADD COLUMN role text NOT NULL, ADD COLUMN active boolean NOT NULL DEFAULT true;',
+      downContent: 'ALTER TABLE users DROP COLUMN role, DROP COLUMN active;',
+      sql: true
+    });
+
+    expect(findings).toEqual([
+      { rule: 'not-null-without-default', severity: 'error', message: 'Adds NOT NULL column role without a DEFAULT', line: 1 }
+    ]);
+  });
+
+  it('lints SQL files without their comments and string values', () => {
+    const content = [
+      '-- DROP TABLE users once the backfill is done',
+      '/* TRUNCATE sessions; */',
+      "INSERT INTO notes (body) VALUES ('drop table users; truncate logs');",
+      'TRUNCATE `audit_log`;'
+    ].join('\n');
+
+    expect(lintMigration({ content, downContent: 'SELECT 1;', sql: true })).toEqual([
+      { rule: 'truncate', severity: 'error', message: 'TRUNCATE audit_log', line: 4 }
+    ]);
+  });
+
+  it('reports a missing or empty down migration', () => {
+    expect(rules('CREATE TABLE audit (id int);', { downContent: null, sql: true })).toEqual(['missing-down']);
+    expect(rules('CREATE TABLE audit (id int);', { downContent: '-- nothing to undo\n', sql: true })).toEqual(['missing-down']);
+  });
+
+  it('applies configured severities and disable comments', () => {
+    const content = migrationSource('DropUsers1000', 'DROP TABLE users; TRUNCATE sessions');
+
+    expect(lintMigration({ content }, { rules: { 'drop-table': 'warning', truncate: 'off' } })).toEqual([
+      { rule: 'drop-table', severity: 'warning', message: 'DROP TABLE users', line: 3 }
+    ]);
+    expect(rules(`// migration-lint-disable truncate\n${content}`)).toEqual(['drop-table']);
+    expect(rules(`// migration-lint-disable\n${content}`)).toEqual([]);
+  });
+
+  it('only flags indexes on the configured large tables', () => {
+    const content = migrationSource('AddIndexes1000', 'CREATE INDEX a ON users (email); CREATE INDEX CONCURRENTLY b ON orders (id); CREATE INDEX c ON tags (name)');
+
+    expect(lintMigration({ content }, { largeTables: ['users', 'orders'] }).map(finding => finding.message)).toEqual([
+      'CREATE INDEX on users without CONCURRENTLY locks writes'
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import os from 'os';
+import { FileLock } from '../src/lock';
+import { LockHolder } from '../src/types';
+import { MemoryFileSystem } from './helpers';
+
+const LOCK_FILE = '/project/.migration-lock.json';
+
+function holder(overrides: Partial<LockHolder> = {}): LockHolder {
+  return { user: 'ada', host: os.hostname(), pid: process.pid, operation: 'Applying migrations', acquiredAt: '2024-01-01T00:00:00.000Z', ...overrides };
+}
+
+describe('FileLock', () => {
+  it('acquires a free lock and releases it', async () => {
+    const fs = new MemoryFileSystem();
+    const lock = new FileLock(LOCK_FILE, fs);
+    const owner = holder();
+
+    expect(await lock.acquire(owner)).toBeNull();
+    expect(await lock.read()).toEqual(owner);
+    expect([...fs.files.keys()]).toEqual([LOCK_FILE]);
+
+    await lock.release(owner);
+    expect(await lock.read()).toBeNull();
+  });
+
+  it('reports the current holder instead of taking a held lock', async () => {
+    const fs = new MemoryFileSystem();
+    const lock = new FileLock(LOCK_FILE, fs);
+    const owner = holder();
+    const other = holder({ user: 'bob', acquiredAt: '2024-01-02T00:00:00.000Z' });
+
+    await lock.acquire(owner);
+
+    expect(await lock.acquire(other)).toEqual(owner);
+    await lock.release(other);
+    expect(await lock.read()).toEqual(owner);
+    expect([...fs.files.keys()]).toEqual([LOCK_FILE]);
+  });
+
+  it('takes over a lock left by a process on this host that is no longer running', async () => {
+    const fs = new MemoryFileSystem();
+    const lock = new FileLock(LOCK_FILE, fs);
+    await lock.acquire(holder({ pid: 2 ** 30 }));
+
+    const owner = holder();
+
+    expect(await lock.acquire(owner)).toBeNull();
+    expect(await lock.read()).toEqual(owner);
+  });
+
+  it('leaves locks held by other hosts alone', async () => {
+    const fs = new MemoryFileSystem();
+    const lock = new FileLock(LOCK_FILE, fs);
+    const remote = holder({ host: 'ci-runner', pid: 2 ** 30 });
+    await lock.acquire(remote);
+
+    expect(await lock.acquire(holder())).toEqual(remote);
+  });
+
+  it('treats an unreadable lock file as held until it is force-released', async () => {
+    const fs = new MemoryFileSystem();
+    const lock = new FileLock(LOCK_FILE, fs);
+    fs.put(LOCK_FILE, '');
+
+    expect(await lock.acquire(holder())).toMatchObject({ user: 'unknown', host: 'unknown', operation: 'unreadable lock file' });
+
+    await lock.forceRelease();
+    expect(await lock.acquire(holder())).toBeNull();
+  });
+});
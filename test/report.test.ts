@@ -0,0 +1,86 @@
+import { buildStatusReport, formatJsonReport, formatJUnitReport, REPORT_SCHEMA_VERSION } from '../src/report';
+import { DatabaseInfo, Migration } from '../src/types';
+
+const DB_INFO: DatabaseInfo = {
+  host: 'db.internal',
+  database: 'app',
+  connected: true,
+  migrationsCount: 5,
+  pendingCount: 1,
+  lastCheck: Date.UTC(2024, 0, 2)
+};
+
+const MIGRATIONS: Migration[] = [
+  { name: '1000-create-users.ts', timestamp: 1000, status: 'applied', hash: 'aaa', size: '1 KB', description: 'Users & <roles>' },
+  { name: '2000-add-index.ts', timestamp: 2000, status: 'modified', hash: 'bbb', appliedHash: 'ccc' },
+  {
+    name: '3000-backfill.ts',
+    timestamp: 3000,
+    status: 'failed',
+    failure: { direction: 'up', exitCode: 1, stderr: 'relation "users" already exists', failedAt: 0 }
+  },
+  {
+    name: '4000-add-posts.ts',
+    timestamp: 4000,
+    status: 'pending',
+    description: 'Posts & <tags>',
+    lint: [{ rule: 'drop-table', severity: 'error', message: 'DROP TABLE posts', line: 3 }]
+  },
+  { name: '500-legacy.ts', timestamp: 500, status: 'orphaned' }
+];
+
+describe('buildStatusReport', () => {
+  it('summarizes the migrations and the database', () => {
+    const report = buildStatusReport(MIGRATIONS, DB_INFO);
+
+    expect(report).toMatchObject({
+      schemaVersion: REPORT_SCHEMA_VERSION,
+      database: { host: 'db.internal', database: 'app', connected: true, lastCheck: '2024-01-02T00:00:00.000Z' },
+      summary: { total: 5, applied: 1, pending: 1, failed: 1, modified: 1, orphaned: 1 }
+    });
+    expect(report.migrations[0]).toEqual({
+      name: '1000-create-users.ts',
+      timestamp: 1000,
+      date: '1970-01-01T00:00:01.000Z',
+      status: 'applied',
+      hash: 'aaa',
+      appliedHash: null,
+      size: '1 KB',
+      description: 'Users & <roles>',
+      failure: null,
+      warnings: [],
+      lint: []
+    });
+    expect(report.migrations[3].lint).toEqual(MIGRATIONS[3].lint);
+  });
+
+  it('formats as indented JSON that parses back to the report', () => {
+    const report = buildStatusReport(MIGRATIONS, DB_INFO);
+
+    expect(JSON.parse(formatJsonReport(report))).toEqual(report);
+  });
+});
+
+describe('formatJUnitReport', () => {
+  it('turns pending and modified migrations into failures, failed and orphaned ones into errors', () => {
+    const xml = formatJUnitReport(buildStatusReport(MIGRATIONS, DB_INFO));
+
+    expect(xml).toContain('<testsuites name="migration-manager" tests="5" failures="2" errors="2">');
+    expect(xml).toContain('<testsuite name="migrations (app@db.internal)" tests="5" failures="2" errors="2"');
+    expect(xml).toContain('<testcase classname="migrations" name="1000-create-users.ts"/>');
+    expect(xml).toContain('<failure type="pending" message="Migration has not been applied">');
+    expect(xml).toContain('<failure type="modified" message="Migration file changed after it was applied (applied hash ccc)">');
+    expect(xml).toContain('<error type="failed" message="Migration failed while applying (exit code 1)">');
+    expect(xml).toContain('relation &quot;users&quot; already exists');
+    expect(xml).toContain('<error type="orphaned"');
+    expect(xml).not.toContain('Posts & <tags>');
+    expect(xml).toContain('description: Posts &amp; &lt;tags&gt;');
+  });
+
+  it('reports a lost connection as an error', () => {
+    const xml = formatJUnitReport(buildStatusReport([], { ...DB_INFO, connected: false }));
+
+    expect(xml).toContain('<testsuites name="migration-manager" tests="1" failures="0" errors="1">');
+    expect(xml).toContain('<error type="disconnected" message="Could not fetch migration status"/>');
+  });
+});
@@ -0,0 +1,95 @@
+import { diffQueries, extractUpQueries, UNKNOWN_TABLE } from '../src/schema-diff';
+
+describe('extractUpQueries', () => {
+  it('reads the query() literals of the up method only', () => {
+    const content = [
+      'export class AddPosts1000 implements MigrationInterface {',
+      '  public async up(queryRunner: QueryRunner): Promise<void> {',
+      '    await queryRunner.query(`CREATE TABLE "posts" ("id" SERIAL NOT NULL, "title" character varying NOT NULL)`);',
+      `    await queryRunner.query('ALTER TABLE "posts" ADD "slug" text');`,
+      '    await queryRunner.query("CREATE INDEX \\"IDX_slug\\" ON \\"posts\\" (\\"slug\\")");',
+      '  }',
+      '',
+      '  public async down(queryRunner: QueryRunner): Promise<void> {',
+      '    await queryRunner.query(`DROP TABLE "posts"`);',
+      '  }',
+      '}'
+    ].join('\n');
+
+    expect(extractUpQueries(content, false)).toEqual([
+      'CREATE TABLE "posts" ("id" SERIAL NOT NULL, "title" character varying NOT NULL)',
+      'ALTER TABLE "posts" ADD "slug" text',
+      'CREATE INDEX "IDX_slug" ON "posts" ("slug")'
+    ]);
+  });
+
+  it('splits SQL files into statements without comments', () => {
+    expect(extractUpQueries('-- add users\nCREATE TABLE users (id int);\n\nDROP TABLE legacy;\n', true)).toEqual([
+      'CREATE TABLE users (id int)',
+      'DROP TABLE legacy'
+    ]);
+  });
+
+  it('finds nothing in a file without an up method', () => {
+    expect(extractUpQueries('export const seed = () => query(`DROP TABLE users`);', false)).toEqual([]);
+  });
+});
+
+describe('diffQueries', () => {
+  it('groups the changes of each statement by table', () => {
+    expect(diffQueries([
+      'CREATE TABLE "public"."posts" ("id" SERIAL NOT NULL, "title" varchar NOT NULL, CONSTRAINT "PK_posts" PRIMARY KEY ("id"))',
+      'ALTER TABLE "users" ADD "role" text, DROP COLUMN "legacy", RENAME COLUMN "mail" TO "email"',
+      'CREATE UNIQUE INDEX "IDX_posts_title" ON "posts" ("title")',
+      'DROP TABLE "sessions"'
+    ])).toEqual([
+      {
+        table: 'posts',
+        changes: [
+          { kind: 'added', objectType: 'table', name: 'public.posts' },
+          { kind: 'added', objectType: 'column', name: 'id', detail: 'SERIAL NOT NULL' },
+          { kind: 'added', objectType: 'column', name: 'title', detail: 'varchar NOT NULL' },
+          { kind: 'added', objectType: 'constraint', name: 'PK_posts', detail: 'PRIMARY KEY ("id")' },
+          { kind: 'added', objectType: 'index', name: 'IDX_posts_title', detail: 'UNIQUE ("title")' }
+        ]
+      },
+      { table: 'sessions', changes: [{ kind: 'removed', objectType: 'table', name: 'sessions' }] },
+      {
+        table: 'users',
+        changes: [
+          { kind: 'added', objectType: 'column', name: 'role', detail: 'text' },
+          { kind: 'removed', objectType: 'column', name: 'legacy' },
+          { kind: 'altered', objectType: 'column', name: 'mail', detail: 'renamed to email' }
+        ]
+      }
+    ]);
+  });
+
+  it('describes table renames, dropped constraints and indexes', () => {
+    expect(diffQueries([
+      'ALTER TABLE "orders" RENAME TO "purchases"',
+      'ALTER TABLE "items" DROP CONSTRAINT "FK_items_orders"',
+      'DROP INDEX "IDX_items_sku"'
+    ])).toEqual([
+      { table: 'items', changes: [{ kind: 'removed', objectType: 'constraint', name: 'FK_items_orders' }] },
+      { table: 'orders', changes: [{ kind: 'altered', objectType: 'table', name: 'orders', detail: 'renamed to purchases' }] },
+      { table: UNKNOWN_TABLE, changes: [{ kind: 'removed', objectType: 'index', name: 'IDX_items_sku' }] }
+    ]);
+  });
+
+  it('lists statements it does not understand last, under no table', () => {
+    expect(diffQueries(['UPDATE "users" SET "role" = \'member\'', 'CREATE TABLE "audit" ("id" int)'])).toEqual([
+      {
+        table: 'audit',
+        changes: [
+          { kind: 'added', objectType: 'table', name: 'audit' },
+          { kind: 'added', objectType: 'column', name: 'id', detail: 'int' }
+        ]
+      },
+      {
+        table: UNKNOWN_TABLE,
+        changes: [{ kind: 'altered', objectType: 'other', name: 'UPDATE "users" SET', detail: 'UPDATE "users" SET "role" = \'member\'' }]
+      }
+    ]);
+  });
+});
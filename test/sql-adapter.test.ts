@@ -0,0 +1,164 @@
+import path from 'path';
+import { SqlAdapter } from '../src/adapters/sql';
+import { AdapterContext } from '../src/adapters/types';
+import { CommandResult, LockHolder, Migration } from '../src/types';
+import { MemoryFileSystem, MIGRATIONS_DIR } from './helpers';
+
+const EXECUTE = 'db-exec {file}';
+const QUERY = 'db-query {sql}';
+
+// The single-quoted argument of a command, as the shell would pass it.
+function unquoteArgument(command: string, prefix: string): string {
+  return command.slice(prefix.length + 2, -1).replace(/'\\''/g, "'");
+}
+
+// Plays the database behind the execute and query commands: the migrations table is a list of ids,
+// and the lock table holds at most one row.
+class FakeDatabase {
+  readonly applied: string[] = [];
+  readonly executed: string[] = [];
+  readonly failing = new Set<string>();
+  lock: string | null = null;
+
+  run(command: string): CommandResult {
+    const file = unquoteArgument(command, 'db-exec');
+    this.executed.push(file);
+    return this.failing.has(path.basename(file))
+      ? { success: false, code: 3, stdout: '', stderr: `ERROR in ${path.basename(file)}` }
+      : { success: true, code: 0, stdout: '', stderr: '' };
+  }
+
+  read(command: string): string {
+    const sql = unquoteArgument(command, 'db-query');
+    let match: RegExpExecArray | null;
+
+    if ((match = /INSERT INTO schema_migrations \(name\) VALUES \('(.*)'\);$/.exec(sql))) {
+      this.applied.push(match[1]);
+    } else if ((match = /DELETE FROM schema_migrations WHERE name = '(.*)';$/.exec(sql))) {
+      this.applied.splice(this.applied.indexOf(match[1]), 1);
+    } else if (/SELECT name FROM schema_migrations/.test(sql)) {
+      return [...this.applied].sort().map(name => `${name}\n`).join('');
+    } else if ((match = /INSERT INTO schema_migrations_lock \(id, holder\) VALUES \(1, '(.*)'\);$/.exec(sql))) {
+      if (this.lock) throw new Error('duplicate key value violates unique constraint');
+      this.lock = match[1].replace(/''/g, "'");
+    } else if (/DELETE FROM schema_migrations_lock/.test(sql)) {
+      this.lock = null;
+    } else if (/SELECT holder FROM schema_migrations_lock/.test(sql)) {
+      return this.lock ? `${this.lock}\n` : '';
+    }
+
+    return '';
+  }
+}
+
+function createAdapter(options: { migrationsDir?: string; table?: string } = {}) {
+  const fs = new MemoryFileSystem();
+  const db = new FakeDatabase();
+  const migrationsDir = options.migrationsDir ?? MIGRATIONS_DIR;
+  const context: AdapterContext = {
+    migrationsDir,
+    commands: { showStatus: '', migrateUp: '', migrateDown: '', create: '', generate: '' },
+    config: { sql: { execute: EXECUTE, query: QUERY, table: options.table } },
+    profile: null,
+    env: {},
+    fs,
+    log: () => undefined,
+    runCommand: async command => db.run(command),
+    readCommand: async command => db.read(command)
+  };
+
+  const put = (file: string, content = 'SELECT 1;') => fs.put(path.join(migrationsDir, file), content);
+  return { adapter: new SqlAdapter(context), fs, db, put };
+}
+
+const migration = (name: string): Migration => ({ name, timestamp: parseInt(name), status: 'pending' });
+
+describe('SqlAdapter', () => {
+  it('applies pending up files in order and records them', async () => {
+    const { adapter, db, put } = createAdapter();
+    put('2000_posts.up.sql');
+    put('2000_posts.down.sql');
+    put('1000_users.up.sql');
+    put('3000_tags.sql');
+    put('notes.txt');
+    db.applied.push('1000_users');
+
+    const result = await adapter.up();
+
+    expect(result).toMatchObject({ success: true, stdout: 'Applied: 2000_posts, 3000_tags' });
+    expect(db.executed).toEqual([path.join(MIGRATIONS_DIR, '2000_posts.up.sql'), path.join(MIGRATIONS_DIR, '3000_tags.sql')]);
+    expect(await adapter.getAppliedMigrations()).toEqual([
+      { name: '1000_users', timestamp: 1000 },
+      { name: '2000_posts', timestamp: 2000 },
+      { name: '3000_tags', timestamp: 3000 }
+    ]);
+    expect(adapter.isApplied(migration('2000_posts.up.sql'), await adapter.getAppliedMigrations())).toBe(true);
+  });
+
+  it('stops at the first failing file and reports what was applied before it', async () => {
+    const { adapter, db, put } = createAdapter();
+    put('1000_users.up.sql');
+    put('2000_posts.up.sql');
+    put('3000_tags.up.sql');
+    db.failing.add('2000_posts.up.sql');
+
+    const result = await adapter.up();
+
+    expect(result).toMatchObject({ success: false, code: 3, stdout: 'Applied: 1000_users\n', stderr: 'ERROR in 2000_posts.up.sql' });
+    expect(db.applied).toEqual(['1000_users']);
+  });
+
+  it('reverts the last applied migration with its down file', async () => {
+    const { adapter, db, put } = createAdapter();
+    put('1000_users.up.sql');
+    put('1000_users.down.sql');
+    put('2000_posts.up.sql');
+    db.applied.push('1000_users', '2000_posts');
+
+    const missing = await adapter.down();
+    expect(missing).toMatchObject({ success: false, stderr: 'No down migration found for 2000_posts (expected 2000_posts.down.sql)' });
+    expect(db.executed).toEqual([]);
+
+    expect(await adapter.revertOne(migration('1000_users.up.sql'))).toMatchObject({ success: true });
+    expect(db.executed).toEqual([path.join(MIGRATIONS_DIR, '1000_users.down.sql')]);
+    expect(db.applied).toEqual(['2000_posts']);
+  });
+
+  it('quotes file names and SQL for the shell', async () => {
+    const dir = "/project/it's migrations";
+    const { adapter, db, put } = createAdapter({ migrationsDir: dir });
+    put("1000_o'brien.up.sql");
+
+    await adapter.up();
+
+    expect(db.executed).toEqual([`${dir}/1000_o'brien.up.sql`]);
+    expect(db.applied).toEqual(["1000_o''brien"]);
+  });
+
+  it('previews the up and down files', async () => {
+    const { adapter, put } = createAdapter();
+    put('1000_users.up.sql', '\nCREATE TABLE users (id int);\n');
+    put('1000_users.down.sql', '');
+
+    expect(await adapter.preview(migration('1000_users.up.sql'), 'up')).toEqual(['CREATE TABLE users (id int);']);
+    expect(await adapter.preview(migration('1000_users.up.sql'), 'down')).toEqual([]);
+  });
+
+  it('locks with a row in the lock table', async () => {
+    const { adapter, db } = createAdapter();
+    const lock = await adapter.getLock();
+    const owner: LockHolder = { user: "o'brien", host: 'ci', acquiredAt: '2024-01-01T00:00:00.000Z' };
+
+    expect(await lock.acquire(owner)).toBeNull();
+    expect(await lock.acquire({ ...owner, user: 'ada' })).toEqual(owner);
+
+    await lock.release(owner);
+    expect(db.lock).toBeNull();
+  });
+
+  it('rejects table names that are not plain identifiers', () => {
+    expect(() => createAdapter({ table: 'migrations; DROP TABLE users' })).toThrow(
+      'Invalid migrations table name: migrations; DROP TABLE users'
+    );
+  });
+});